@@ -0,0 +1,410 @@
+import React from 'react';
+import { fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from './App';
+import { clearHistory, fetchModels, fetchSettings, generateTitle, streamMessage, updateSettings } from './services/api';
+import { loadChatState, loadSettings, saveChatState, saveSettings } from './services/storage';
+
+jest.mock('./services/api');
+jest.mock('./services/storage');
+
+const mockStreamMessage = streamMessage as jest.MockedFunction<typeof streamMessage>;
+const mockClearHistory = clearHistory as jest.MockedFunction<typeof clearHistory>;
+const mockUpdateSettings = updateSettings as jest.MockedFunction<typeof updateSettings>;
+const mockGenerateTitle = generateTitle as jest.MockedFunction<typeof generateTitle>;
+const mockLoadChatState = loadChatState as jest.MockedFunction<typeof loadChatState>;
+const mockSaveChatState = saveChatState as jest.MockedFunction<typeof saveChatState>;
+const mockFetchModels = fetchModels as jest.MockedFunction<typeof fetchModels>;
+const mockFetchSettings = fetchSettings as jest.MockedFunction<typeof fetchSettings>;
+const mockLoadSettings = loadSettings as jest.MockedFunction<typeof loadSettings>;
+const mockSaveSettings = saveSettings as jest.MockedFunction<typeof saveSettings>;
+
+// Whole-app flows type full messages key by key, which is slow on busy CI machines
+jest.setTimeout(15000);
+
+const welcomeText = /Ask me anything about Sanskrit or Ayurveda/;
+
+const sidebarItems = () => screen.getAllByRole('listitem');
+
+// The sidebar's button precedes the title bar's icon button of the same name
+const clickNewChat = () => userEvent.click(screen.getAllByRole('button', { name: 'New Chat' })[0]);
+
+// Delete buttons stay hidden until the sidebar item is hovered
+const clickDelete = (title: string) =>
+  userEvent.click(screen.getByLabelText(`Delete ${title}`));
+
+const sendMessage = async (text: string) => {
+  await userEvent.type(screen.getByPlaceholderText('Type your message...'), text);
+  await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+};
+
+describe('App', () => {
+  let consoleError: jest.SpyInstance | null = null;
+
+  // For tests that expect failures to be logged
+  const silenceConsoleErrors = () => {
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  };
+
+  beforeEach(() => {
+    mockStreamMessage.mockReset();
+    mockStreamMessage.mockImplementation(async (message) => `Answer to ${message}`);
+    mockClearHistory.mockResolvedValue();
+    mockUpdateSettings.mockResolvedValue();
+    // While the generated title is still on its way, chats keep the truncated first question
+    mockGenerateTitle.mockReset();
+    mockGenerateTitle.mockReturnValue(new Promise(() => {}));
+    mockLoadChatState.mockResolvedValue({ status: 'empty' });
+    mockFetchSettings.mockResolvedValue({});
+    mockLoadSettings.mockReturnValue(null);
+    mockFetchModels.mockResolvedValue({
+      llm: [{ id: 'llama-3.1-8b-instant', label: 'Llama 3.1 (8B)', description: '', capabilities: [] }],
+      asr: [
+        { id: 'conformer', label: 'Conformer', description: '', capabilities: [] },
+        { id: 'whisper', label: 'Whisper large-v3', description: '', capabilities: [] },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    consoleError?.mockRestore();
+    consoleError = null;
+  });
+
+  it('starts with a single empty chat', async () => {
+    render(<App />);
+
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    expect(within(sidebarItems()[0]).getByText('New Chat')).toBeInTheDocument();
+    expect(screen.getByText(welcomeText)).toBeInTheDocument();
+  });
+
+  it('saves chats as they change', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+
+    await sendMessage('What is vata?');
+
+    await waitFor(() => expect(mockSaveChatState).toHaveBeenLastCalledWith({
+      chatHistory: [expect.objectContaining({ title: 'What is vata?' })],
+      activeChatId: expect.any(String),
+    }));
+  });
+
+  it('leaves stored chats it cannot read untouched', async () => {
+    mockLoadChatState.mockResolvedValue({ status: 'unreadable' });
+    render(<App />);
+
+    expect(await screen.findByText(/Saved chats could not be loaded/)).toBeInTheDocument();
+    await sendMessage('What is vata?');
+    await screen.findByText('Answer to What is vata?');
+
+    // Past the save delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(mockSaveChatState).not.toHaveBeenCalled();
+  });
+
+  it('titles a chat from its first message', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+
+    await sendMessage('Explain the three doshas and their qualities');
+
+    expect(await screen.findByText('Answer to Explain the three doshas and their qualities')).toBeInTheDocument();
+    expect(within(sidebarItems()[0]).getByText('Explain the three doshas and t...')).toBeInTheDocument();
+
+    await sendMessage('And kapha?');
+    await screen.findByText('Answer to And kapha?');
+    expect(within(sidebarItems()[0]).getByText('Explain the three doshas and t...')).toBeInTheDocument();
+  });
+
+  it('creates a new chat and switches between chats', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    await sendMessage('What is vata?');
+    await screen.findByText('Answer to What is vata?');
+
+    await clickNewChat();
+
+    await waitFor(() => expect(sidebarItems()).toHaveLength(2));
+    expect(within(sidebarItems()[0]).getByText('New Chat')).toBeInTheDocument();
+    expect(screen.getByText(welcomeText)).toBeInTheDocument();
+    expect(screen.queryByText('Answer to What is vata?')).not.toBeInTheDocument();
+
+    await userEvent.click(within(sidebarItems()[1]).getByText('What is vata?'));
+
+    expect(screen.getByText('Answer to What is vata?')).toBeInTheDocument();
+    expect(screen.queryByText(welcomeText)).not.toBeInTheDocument();
+  });
+
+  it('selects another chat after deleting the active one', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    await sendMessage('What is pitta?');
+    await screen.findByText('Answer to What is pitta?');
+
+    await clickNewChat();
+    await waitFor(() => expect(sidebarItems()).toHaveLength(2));
+
+    await clickDelete('New Chat');
+
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    expect(screen.getByText('Answer to What is pitta?')).toBeInTheDocument();
+    expect(mockClearHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces the last chat with a fresh one when it is deleted', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    await sendMessage('What is kapha?');
+    await screen.findByText('Answer to What is kapha?');
+
+    await clickDelete('What is kapha?');
+
+    await waitFor(() => expect(within(sidebarItems()[0]).getByText('New Chat')).toBeInTheDocument());
+    expect(sidebarItems()).toHaveLength(1);
+    expect(screen.getByText(welcomeText)).toBeInTheDocument();
+  });
+
+  it('auto-titles a chat after its first reply and lets the user rename it', async () => {
+    mockGenerateTitle.mockResolvedValue('Vata dosha and diet');
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+
+    await sendMessage('Vata diet?');
+
+    expect(await within(sidebarItems()[0]).findByText('Vata dosha and diet')).toBeInTheDocument();
+    expect(mockGenerateTitle).toHaveBeenCalledTimes(1);
+    expect(mockGenerateTitle.mock.calls[0][0].map(m => m.sender)).toEqual(['user', 'bot']);
+
+    await userEvent.click(screen.getByLabelText('Options for Vata dosha and diet'));
+    await userEvent.click(screen.getByRole('menuitem', { name: 'Rename' }));
+    const titleField = await screen.findByRole('textbox', { name: 'Chat title' });
+    await userEvent.clear(titleField);
+    await userEvent.type(titleField, 'My notes{Enter}');
+
+    expect(within(sidebarItems()[0]).getByText('My notes')).toBeInTheDocument();
+
+    await sendMessage('Pitta?');
+    await screen.findByText('Answer to Pitta?');
+    expect(within(sidebarItems()[0]).getByText('My notes')).toBeInTheDocument();
+    expect(mockGenerateTitle).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps pinned chats above the date groups', async () => {
+    mockGenerateTitle.mockResolvedValue('Vata dosha and diet');
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    await sendMessage('Ojas?');
+    await screen.findByText('Answer to Ojas?');
+    await clickNewChat();
+    await waitFor(() => expect(sidebarItems()).toHaveLength(2));
+
+    await userEvent.click(screen.getByLabelText('Options for Vata dosha and diet'));
+    await userEvent.click(screen.getByRole('menuitem', { name: 'Pin to top' }));
+
+    const pinned = screen.getByRole('list', { name: 'Pinned' });
+    expect(within(pinned).getByText('Vata dosha and diet')).toBeInTheDocument();
+    expect(screen.getByRole('list', { name: 'Today' })).toHaveTextContent('New Chat');
+    expect(within(sidebarItems()[0]).getByText('Vata dosha and diet')).toBeInTheDocument();
+  });
+
+  it('finds a message through sidebar search and jumps to it', async () => {
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    mockLoadChatState.mockResolvedValue({
+      status: 'loaded',
+      state: {
+        activeChatId: 'recent',
+        chatHistory: [
+          {
+            id: 'recent',
+            title: 'Dinacharya',
+            timestamp: new Date(),
+            messages: [{ id: 'r1', text: 'Daily routine?', sender: 'user', timestamp: new Date() }],
+          },
+          {
+            id: 'older',
+            title: 'Doshas',
+            timestamp: yesterday,
+            messages: [
+              { id: 'o1', text: 'What is pitta?', sender: 'user', timestamp: yesterday },
+              { id: 'o2', text: 'Pitta governs **digestion** and metabolism.', sender: 'bot', timestamp: yesterday },
+            ],
+          },
+        ],
+      },
+    });
+    render(<App />);
+
+    expect(await screen.findByRole('list', { name: 'Today' })).toHaveTextContent('Dinacharya');
+    expect(screen.getByRole('list', { name: 'Yesterday' })).toHaveTextContent('Doshas');
+
+    await userEvent.type(screen.getByRole('textbox', { name: 'Search chats' }), 'digestion');
+    const results = within(screen.getByRole('list', { name: 'Search results' })).getAllByRole('listitem');
+    expect(results).toHaveLength(1);
+    expect(within(results[0]).getByText('digestion')).toContainHTML('mark');
+
+    await userEvent.click(within(results[0]).getByText('Doshas'));
+
+    expect(screen.getByText('What is pitta?')).toBeInTheDocument();
+    expect(window.HTMLElement.prototype.scrollIntoView).toHaveBeenCalledWith({ behavior: 'smooth', block: 'center' });
+  });
+
+  it('announces a settings change once the server accepts it', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+
+    await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.mouseDown(await screen.findByRole('combobox', { name: /Speech Recognition/ }));
+    await userEvent.click(within(screen.getByRole('listbox')).getByText('Whisper large-v3'));
+
+    expect(await screen.findByText('Speech recognition model changed to Whisper large-v3')).toBeInTheDocument();
+    expect(mockUpdateSettings).toHaveBeenCalledWith(expect.objectContaining({ asrModel: 'whisper' }));
+  });
+
+  it('starts from locally saved settings and adopts the server\'s', async () => {
+    mockLoadSettings.mockReturnValue({ temperature: 0.7, speechRate: 1.5 });
+    // Extra fields from the server are dropped
+    const fromServer = { asrModel: 'whisper', unknownOption: true };
+    mockFetchSettings.mockResolvedValue(fromServer);
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+
+    await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+
+    expect(screen.getByText('Temperature: 0.7')).toBeInTheDocument();
+    expect(screen.getByText('Speed: 1.5×')).toBeInTheDocument();
+    await waitFor(() => expect(screen.getByRole('combobox', { name: /Speech Recognition/ })).toHaveTextContent('Whisper large-v3'));
+    expect(mockSaveSettings).toHaveBeenCalledWith(expect.not.objectContaining({ unknownOption: true }));
+  });
+
+  it('answers with an offered model when the saved one is retired', async () => {
+    mockLoadSettings.mockReturnValue({ llmModel: 'deepseek-r1-distill-qwen-32b' });
+    render(<App />);
+
+    expect(await screen.findByText('deepseek-r1-distill-qwen-32b is no longer available, so replies use Llama 3.1 (8B)'))
+      .toBeInTheDocument();
+    await sendMessage('What is vata?');
+
+    await screen.findByText('Answer to What is vata?');
+    expect(mockStreamMessage.mock.calls[0][1]?.generation).toEqual({ llmModel: 'llama-3.1-8b-instant', temperature: 0.3 });
+  });
+
+  it('sends only the final slider value and shows when it is applied', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+
+    const slider = screen.getByRole('slider', { name: /Temperature/ });
+    fireEvent.change(slider, { target: { value: 0.4 } });
+    fireEvent.change(slider, { target: { value: 0.5 } });
+    fireEvent.change(slider, { target: { value: 0.6 } });
+
+    expect(screen.getByRole('status', { name: 'Settings save status' })).toHaveTextContent('Unsaved changes');
+    await waitFor(() => expect(screen.getByRole('status', { name: 'Settings save status' })).toHaveTextContent('All changes applied'));
+    expect(mockUpdateSettings).toHaveBeenCalledTimes(1);
+    expect(mockUpdateSettings).toHaveBeenCalledWith(expect.objectContaining({ temperature: 0.6 }));
+    expect(mockSaveSettings).toHaveBeenLastCalledWith(expect.objectContaining({ temperature: 0.6 }));
+  });
+
+  it('keeps device preferences local and out of server rollbacks', async () => {
+    mockUpdateSettings.mockRejectedValue(new Error('Invalid temperature'));
+    silenceConsoleErrors();
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+
+    fireEvent.change(screen.getByRole('slider', { name: /Speed/ }), { target: { value: 1.5 } });
+    expect(mockSaveSettings).toHaveBeenLastCalledWith(expect.objectContaining({ speechRate: 1.5 }));
+    expect(screen.getByRole('status', { name: 'Settings save status' })).toHaveTextContent('All changes applied');
+
+    fireEvent.change(screen.getByRole('slider', { name: /Temperature/ }), { target: { value: 0.9 } });
+    expect(await screen.findByText(/Failed to update settings/)).toBeInTheDocument();
+
+    expect(screen.getByText('Speed: 1.5×')).toBeInTheDocument();
+    expect(mockUpdateSettings).toHaveBeenCalledWith({ llmModel: 'llama-3.1-8b-instant', asrModel: 'conformer', asrLanguage: 'auto', temperature: 0.9 });
+    expect(mockSaveSettings).toHaveBeenLastCalledWith(expect.objectContaining({ speechRate: 1.5, temperature: 0.3 }));
+  });
+
+  it('keeps model settings per conversation and labels replies with them', async () => {
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    const setTemperature = async (value: number) => {
+      await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+      fireEvent.change(await screen.findByRole('slider', { name: /Temperature/ }), { target: { value } });
+      await waitFor(() => expect(screen.getByRole('status', { name: 'Settings save status' })).toHaveTextContent('All changes applied'));
+      // The title bar's back button comes before the footer's
+      await userEvent.click(screen.getAllByRole('button', { name: 'Back to Chat' })[0]);
+      await screen.findByPlaceholderText('Type your message...');
+    };
+
+    await setTemperature(0.6);
+    await sendMessage('What is vata?');
+    expect(await screen.findByLabelText('Generated by Llama 3.1 (8B) at temperature 0.6')).toBeInTheDocument();
+
+    // New chats start from the latest choice, then go their own way
+    await clickNewChat();
+    await waitFor(() => expect(sidebarItems()).toHaveLength(2));
+    await setTemperature(0.2);
+    await sendMessage('What is pitta?');
+    expect(await screen.findByLabelText('Generated by Llama 3.1 (8B) at temperature 0.2')).toBeInTheDocument();
+
+    await userEvent.click(within(sidebarItems()[1]).getByText('What is vata?'));
+    await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    expect(await screen.findByText('Temperature: 0.6')).toBeInTheDocument();
+  });
+
+  it('restores the previous settings when the server rejects a change', async () => {
+    mockUpdateSettings.mockRejectedValue(new Error('Invalid temperature'));
+    silenceConsoleErrors();
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+
+    fireEvent.change(screen.getByRole('slider', { name: /Temperature/ }), { target: { value: 0.9 } });
+    expect(screen.getByText('Temperature: 0.9')).toBeInTheDocument();
+
+    expect(await screen.findByText(/Failed to update settings/)).toBeInTheDocument();
+    expect(screen.getByText('Temperature: 0.3')).toBeInTheDocument();
+    expect(screen.getByRole('status', { name: 'Settings save status' })).toHaveTextContent('Not saved');
+    expect(mockSaveSettings).not.toHaveBeenCalledWith(expect.objectContaining({ temperature: 0.9 }));
+  });
+
+  it('puts back only the conversation whose change was rejected', async () => {
+    mockUpdateSettings
+      .mockResolvedValueOnce()
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new Error('Invalid temperature'));
+    silenceConsoleErrors();
+    render(<App />);
+    await waitFor(() => expect(sidebarItems()).toHaveLength(1));
+    const changeTemperature = async (value: number) => {
+      await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+      fireEvent.change(await screen.findByRole('slider', { name: /Temperature/ }), { target: { value } });
+    };
+    const backToChat = async () => {
+      await userEvent.click(screen.getAllByRole('button', { name: 'Back to Chat' })[0]);
+      await screen.findByPlaceholderText('Type your message...');
+    };
+
+    await changeTemperature(0.9);
+    await waitFor(() => expect(screen.getByRole('status', { name: 'Settings save status' })).toHaveTextContent('All changes applied'));
+    await backToChat();
+    await sendMessage('What is vata?');
+    await screen.findByText('Answer to What is vata?');
+
+    await clickNewChat();
+    await waitFor(() => expect(sidebarItems()).toHaveLength(2));
+    await changeTemperature(0.5);
+    await waitFor(() => expect(screen.getByRole('status', { name: 'Settings save status' })).toHaveTextContent('All changes applied'));
+    fireEvent.change(screen.getByRole('slider', { name: /Temperature/ }), { target: { value: 0.9 } });
+    expect(await screen.findByText(/Failed to update settings/)).toBeInTheDocument();
+    expect(screen.getByText('Temperature: 0.5')).toBeInTheDocument();
+
+    // The first chat already used 0.9 and keeps it
+    await backToChat();
+    await userEvent.click(within(sidebarItems()[1]).getByText('What is vata?'));
+    await userEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    expect(await screen.findByText('Temperature: 0.9')).toBeInTheDocument();
+  });
+});
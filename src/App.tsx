@@ -19,8 +19,27 @@ import ChatInterface from './components/ChatInterface';
 import SettingsPanel from './components/SettingsPanel';
 import PDFUpload from './components/PDFUpload';
 import ChatSidebar from './components/ChatSidebar';
-import { ChatSettings } from './types';
-import { updateSettings, clearHistory } from './services/api';
+import DocumentViewer from './components/DocumentViewer';
+import SplitPane from './components/SplitPane';
+import {
+  ChatSettings,
+  ChatHistoryItem,
+  ChatMessage,
+  BotMessageDetails,
+  ConversationSettings,
+  DocumentLocation,
+  ExportFormat,
+  MessageSource,
+  ModelCatalog,
+  ServerSettings,
+  SettingsSaveStatus,
+  UploadedDocument,
+} from './types';
+import { updateSettings, clearHistory, generateTitle, fetchModels, fetchSettings } from './services/api';
+import { loadChatState, loadSettings, saveChatState, saveSettings } from './services/storage';
+import { exportChat, parseImportedChats } from './utils/exportChat';
+import { FALLBACK_MODEL_CATALOG, modelLabel, offeredModelId } from './utils/models';
+import { useUploadQueue } from './hooks/useUploadQueue';
 
 const theme = createTheme({
   palette: {
@@ -40,24 +59,60 @@ const theme = createTheme({
   },
 });
 
-interface ChatHistoryItem {
-  id: string;
-  title: string;
-  timestamp: Date;
-  messages: Array<{
-    id: string;
-    text: string;
-    sender: 'user' | 'bot';
-    timestamp: Date;
-  }>;
-}
-
 const defaultSettings: ChatSettings = {
   llmModel: 'llama-3.1-8b-instant',
   asrModel: 'conformer',
+  asrLanguage: 'auto',
   temperature: 0.3,
+  transliterationScheme: 'iast',
+  autoTitle: true,
+  ttsProvider: 'browser',
+  speechRate: 1,
+  microphoneId: '',
+  maxRecordingSeconds: 120,
+};
+
+// Settings changes are sent once the user pauses, so a dragged slider posts one value
+const SETTINGS_SAVE_DELAY_MS = 500;
+
+// Keeps only known settings of the expected type, so stale or foreign values can't break the UI
+const sanitizeSettings = (raw: Partial<ChatSettings> | null | undefined): Partial<ChatSettings> => {
+  const result: Record<string, unknown> = {};
+  if (!raw) return result;
+
+  (Object.keys(defaultSettings) as (keyof ChatSettings)[]).forEach((key) => {
+    if (typeof raw[key] === typeof defaultSettings[key]) result[key] = raw[key];
+  });
+  return result as Partial<ChatSettings>;
 };
 
+const SERVER_SETTINGS: (keyof ServerSettings)[] = ['llmModel', 'asrModel', 'asrLanguage', 'temperature'];
+
+const toServerSettings = ({ llmModel, asrModel, asrLanguage, temperature }: ServerSettings): ServerSettings => ({
+  llmModel,
+  asrModel,
+  asrLanguage,
+  temperature,
+});
+
+const sameServerSettings = (a: ServerSettings, b: ServerSettings) => SERVER_SETTINGS.every(key => a[key] === b[key]);
+
+const CONVERSATION_SETTINGS: (keyof ConversationSettings)[] = ['llmModel', 'asrModel', 'temperature'];
+
+const toConversationSettings = ({ llmModel, asrModel, temperature }: ChatSettings): ConversationSettings => ({
+  llmModel,
+  asrModel,
+  temperature,
+});
+
+const createChat = (defaults: ChatSettings): ChatHistoryItem => ({
+  id: Date.now().toString(),
+  title: "New Chat",
+  timestamp: new Date(),
+  messages: [],
+  settings: toConversationSettings(defaults),
+});
+
 interface SnackbarState {
   open: boolean;
   message: string;
@@ -67,7 +122,8 @@ interface SnackbarState {
 const App: React.FC = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [showUpload, setShowUpload] = useState(false);
-  const [settings, setSettings] = useState<ChatSettings>(defaultSettings);
+  const [settings, setSettings] = useState<ChatSettings>(() => ({ ...defaultSettings, ...sanitizeSettings(loadSettings()) }));
+  const [settingsStatus, setSettingsStatus] = useState<SettingsSaveStatus>('applied');
   const [snackbar, setSnackbar] = useState<SnackbarState>({
     open: false,
     message: '',
@@ -76,87 +132,239 @@ const App: React.FC = () => {
   const [chatHistory, setChatHistory] = useState<ChatHistoryItem[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [mobileOpen, setMobileOpen] = useState(false);
+  // Message to scroll to after picking a search result
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  // Document open beside the chat, if any
+  const [viewerLocation, setViewerLocation] = useState<DocumentLocation | null>(null);
+  const [modelCatalog, setModelCatalog] = useState<ModelCatalog>(FALLBACK_MODEL_CATALOG);
+  const [modelCatalogFailed, setModelCatalogFailed] = useState(false);
+  // Whether the language models on offer came from the server rather than the built-in list
+  const [llmCatalogLoaded, setLlmCatalogLoaded] = useState(false);
+  const uploads = useUploadQueue();
 
   const isSmallScreen = useMediaQuery(theme.breakpoints.down('md'));
 
-  // Initialize with a new chat on first load - using a ref to ensure it only runs once
-  const initializedRef = useRef(false);
-
-  useEffect(() => {
-    if (chatHistory.length === 0 && !initializedRef.current) {
-      initializedRef.current = true;
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Stored chats that couldn't be read are left alone rather than replaced by this session's
+  const [savingDisabled, setSavingDisabled] = useState(false);
 
-      // Creating initial chat with a unique ID
-      const initialChatId = Date.now().toString();
+  // Saves run after a delay and may overlap, so they work from refs rather than render-time state
+  const settingsRef = useRef(settings);
+  // What the server last accepted; failed saves roll back to it
+  const appliedSettingsRef = useRef<ServerSettings>(toServerSettings(settings));
+  // Each chat's own settings from before the changes the server hasn't accepted yet, by chat id
+  const unsavedChatSettingsRef = useRef<Record<string, ConversationSettings>>({});
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const saveIdRef = useRef(0);
 
-      const initialChat: ChatHistoryItem = {
-        id: initialChatId,
-        title: "New Chat",
-        timestamp: new Date(),
-        messages: []
-      };
+  // Restore saved conversations on first load, or start with a fresh chat
+  useEffect(() => {
+    let cancelled = false;
 
-      setChatHistory([initialChat]);
-      setActiveChatId(initialChatId);
-    }
-  }, [chatHistory.length]);
+    loadChatState().then((loaded) => {
+      if (cancelled) return;
 
-  const handleSettingsChange = async (newSettings: Partial<ChatSettings>) => {
-    const updatedSettings = { ...settings, ...newSettings };
-    setSettings(updatedSettings);
-
-    try {
-      await updateSettings(updatedSettings);
-
-      // Show notification when model is changed
-      if (newSettings.llmModel && newSettings.llmModel !== settings.llmModel) {
-        setSnackbar({
-          open: true,
-          message: `Language model changed to ${newSettings.llmModel}`,
-          severity: 'info'
-        });
+      if (loaded.status === 'loaded' && loaded.state.chatHistory.length > 0) {
+        setChatHistory(loaded.state.chatHistory);
+        setActiveChatId(loaded.state.activeChatId);
+      } else {
+        const initialChat = createChat(settingsRef.current);
+        setChatHistory([initialChat]);
+        setActiveChatId(initialChat.id);
       }
-
-      // Show notification when ASR model is changed
-      if (newSettings.asrModel && newSettings.asrModel !== settings.asrModel) {
+      if (loaded.status === 'unreadable') {
+        setSavingDisabled(true);
         setSnackbar({
           open: true,
-          message: `Speech recognition model changed to ${newSettings.asrModel}`,
-          severity: 'info'
+          message: "Saved chats could not be loaded, so chats from this session won't be saved",
+          severity: 'warning'
         });
       }
+      setIsHydrated(true);
+    });
 
-      // Show notification when temperature is changed
-      if (newSettings.temperature !== undefined && newSettings.temperature !== settings.temperature) {
-        setSnackbar({
-          open: true,
-          message: `Temperature set to ${newSettings.temperature}`,
-          severity: 'info'
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Adopt the server's current settings, unless the user has already started changing them
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSettings()
+      .then((serverSettings) => {
+        if (cancelled || !sameServerSettings(settingsRef.current, appliedSettingsRef.current)) return;
+        // Device preferences such as the microphone never come from the server
+        const adopted = toServerSettings({ ...appliedSettingsRef.current, ...sanitizeSettings(serverSettings) });
+        const merged = { ...settingsRef.current, ...adopted };
+        settingsRef.current = merged;
+        appliedSettingsRef.current = adopted;
+        setSettings(merged);
+        saveSettings(merged);
+        // Chats not started yet were created from the stale local defaults
+        setChatHistory(prev => prev.map(chat =>
+          chat.messages.length === 0 ? { ...chat, settings: toConversationSettings(merged) } : chat
+        ));
+      })
+      .catch(() => {
+        // Keep the locally saved settings; the next change syncs them
+      });
+
+    const saveTimer = saveTimerRef;
+    return () => {
+      cancelled = true;
+      if (saveTimer.current) clearTimeout(saveTimer.current);
+    };
+  }, []);
+
+  // Offer whatever models the backend currently serves; the built-in list covers an empty or failed answer
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchModels()
+      .then((catalog) => {
+        if (cancelled) return;
+        setModelCatalog({
+          llm: catalog.llm.length > 0 ? catalog.llm : FALLBACK_MODEL_CATALOG.llm,
+          asr: catalog.asr.length > 0 ? catalog.asr : FALLBACK_MODEL_CATALOG.asr,
         });
-      }
+        setLlmCatalogLoaded(catalog.llm.length > 0);
+      })
+      .catch(() => {
+        if (!cancelled) setModelCatalogFailed(true);
+      });
 
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist conversations whenever they change (debounced to batch rapid updates)
+  useEffect(() => {
+    if (!isHydrated || savingDisabled) return;
+
+    const timeoutId = setTimeout(() => {
+      saveChatState({ chatHistory, activeChatId });
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [chatHistory, activeChatId, isHydrated, savingDisabled]);
+
+  const announceSettingsChange = (previous: ServerSettings, next: ServerSettings) => {
+    // Show notification when model is changed
+    if (next.llmModel !== previous.llmModel) {
+      setSnackbar({
+        open: true,
+        message: `Language model changed to ${modelLabel(modelCatalog.llm, next.llmModel)}`,
+        severity: 'info'
+      });
+    }
+
+    // Show notification when ASR model is changed
+    if (next.asrModel !== previous.asrModel) {
+      setSnackbar({
+        open: true,
+        message: `Speech recognition model changed to ${modelLabel(modelCatalog.asr, next.asrModel)}`,
+        severity: 'info'
+      });
+    }
+
+    // Show notification when temperature is changed
+    if (next.temperature !== previous.temperature) {
+      setSnackbar({
+        open: true,
+        message: `Temperature set to ${next.temperature}`,
+        severity: 'info'
+      });
+    }
+  };
+
+  const saveSettingsToServer = async () => {
+    saveTimerRef.current = null;
+    const attempt = toServerSettings(settingsRef.current);
+    const previous = appliedSettingsRef.current;
+    const saveId = ++saveIdRef.current;
+    setSettingsStatus('saving');
+
+    try {
+      await updateSettings(attempt);
+      appliedSettingsRef.current = attempt;
+      saveSettings({ ...settingsRef.current, ...attempt });
+      // Chats changed since this save started are still waiting on the next one
+      if (sameServerSettings(settingsRef.current, attempt)) unsavedChatSettingsRef.current = {};
+
+      // A newer save reports for itself
+      if (saveId !== saveIdRef.current) return;
+      setSettingsStatus(sameServerSettings(settingsRef.current, attempt) ? 'applied' : 'unsaved');
+      announceSettingsChange(previous, attempt);
     } catch (error) {
       console.error('Failed to update settings:', error);
+      // Newer changes are still to be saved, and replace these anyway
+      if (saveId !== saveIdRef.current || !sameServerSettings(settingsRef.current, attempt)) return;
+
+      // Undo the optimistic change so the screen shows what the server is using; device preferences stay
+      const restored = appliedSettingsRef.current;
+      const rolledBack = { ...settingsRef.current, ...restored };
+      settingsRef.current = rolledBack;
+      setSettings(rolledBack);
+      saveSettings(rolledBack);
+      // Only the chats whose settings were changed go back, each to its own previous values
+      const changedChats = unsavedChatSettingsRef.current;
+      unsavedChatSettingsRef.current = {};
+      setChatHistory(prev => prev.map(chat =>
+        changedChats[chat.id] ? { ...chat, settings: changedChats[chat.id] } : chat
+      ));
+      setSettingsStatus('failed');
       setSnackbar({
         open: true,
-        message: 'Failed to update settings',
+        message: 'Failed to update settings; the previous settings were restored',
         severity: 'error'
       });
     }
   };
 
+  // Applies changes on screen and in local storage right away. Server-owned settings are sent once the user
+  // pauses; model and temperature changes also become the active chat's own, while other chats keep theirs.
+  const handleSettingsChange = (newSettings: Partial<ChatSettings>) => {
+    if (activeChatId && CONVERSATION_SETTINGS.some(key => newSettings[key] !== undefined)) {
+      if (!unsavedChatSettingsRef.current[activeChatId]) {
+        const activeChat = chatHistory.find(chat => chat.id === activeChatId);
+        unsavedChatSettingsRef.current[activeChatId] = toConversationSettings({ ...settingsRef.current, ...activeChat?.settings });
+      }
+      setChatHistory(prev => prev.map(chat =>
+        chat.id === activeChatId
+          ? { ...chat, settings: toConversationSettings({ ...settingsRef.current, ...chat.settings, ...newSettings }) }
+          : chat
+      ));
+    }
+
+    const updatedSettings = { ...settingsRef.current, ...newSettings };
+    settingsRef.current = updatedSettings;
+    setSettings(updatedSettings);
+    // Server-owned values are only stored once the server accepts them
+    saveSettings({ ...updatedSettings, ...appliedSettingsRef.current });
+
+    if (!SERVER_SETTINGS.some(key => newSettings[key] !== undefined)) return;
+    setSettingsStatus('unsaved');
+
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(saveSettingsToServer, SETTINGS_SAVE_DELAY_MS);
+  };
+
   const handleClearHistory = async () => {
+    if (!activeChatId) return;
+
     try {
-      await clearHistory();
+      // Only this conversation's server-side memory is cleared
+      await clearHistory(activeChatId);
 
-      if (activeChatId) {
-        // Update the chat history by clearing messages for active chat
-        setChatHistory(prev => prev.map(chat =>
-          chat.id === activeChatId
-            ? { ...chat, messages: [], title: "New Chat" }
-            : chat
-        ));
-      }
+      // Update the chat history by clearing messages for active chat
+      setChatHistory(prev => prev.map(chat =>
+        chat.id === activeChatId
+          ? { ...chat, messages: [], title: "New Chat", renamed: false, autoTitlePending: false }
+          : chat
+      ));
 
       setSnackbar({
         open: true,
@@ -190,18 +398,27 @@ const App: React.FC = () => {
     setShowSettings(false); // Close settings if open
   };
 
-  const handleNewChat = () => {
-    const newChatId = Date.now().toString();
+  // Citations and the library both open the document beside the conversation
+  const handleOpenSource = (source: MessageSource) => {
+    if (!source.documentId) return;
+    setViewerLocation({
+      documentId: source.documentId,
+      name: source.document,
+      page: source.page,
+      highlight: source.snippet || undefined,
+    });
+  };
 
-    const newChat: ChatHistoryItem = {
-      id: newChatId,
-      title: "New Chat",
-      timestamp: new Date(),
-      messages: []
-    };
+  const handleOpenDocument = (doc: UploadedDocument) => {
+    setViewerLocation({ documentId: doc.id, name: doc.name });
+    setShowUpload(false);
+  };
+
+  const handleNewChat = () => {
+    const newChat = createChat(settingsRef.current);
 
     setChatHistory(prev => [newChat, ...prev]);
-    setActiveChatId(newChatId);
+    setActiveChatId(newChat.id);
 
     // Close mobile sidebar if open
     if (isSmallScreen) {
@@ -209,9 +426,15 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSelectChat = (id: string) => {
+  const handleSelectChat = (id: string, messageId?: string) => {
     setActiveChatId(id);
 
+    if (messageId) {
+      setFocusMessageId(messageId);
+      setShowSettings(false);
+      setShowUpload(false);
+    }
+
     // Close mobile sidebar if open
     if (isSmallScreen) {
       setMobileOpen(false);
@@ -221,6 +444,11 @@ const App: React.FC = () => {
   const handleDeleteChat = (id: string) => {
     setChatHistory(prev => prev.filter(chat => chat.id !== id));
 
+    // Drop the deleted conversation's server-side memory; the local delete stands either way
+    clearHistory(id).catch(error => {
+      console.error('Failed to clear server context for deleted chat:', error);
+    });
+
     // If deleting active chat, select the first available chat or create a new one
     if (id === activeChatId) {
       const remainingChats = chatHistory.filter(chat => chat.id !== id);
@@ -232,17 +460,20 @@ const App: React.FC = () => {
     }
   };
 
-  const handleSendMessage = (message: string, response: string) => {
-    if (!activeChatId) return;
+  const handleSendMessage = (message: string, response: string, chatId?: string, details?: BotMessageDetails) => {
+    // Replies go to the chat they were asked in, even if the user switched away meanwhile
+    const targetChatId = chatId || activeChatId;
+    if (!targetChatId) return;
 
     // If there's a message, it's a user message
     if (message) {
       const userMessageId = Date.now().toString();
 
       setChatHistory(prev => prev.map(chat => {
-        if (chat.id === activeChatId) {
-          // Update title if this is the first message
-          const updatedTitle = chat.messages.length === 0
+        if (chat.id === targetChatId) {
+          // Update title if this is the first message, unless the user already named the chat
+          const isFirstMessage = chat.messages.length === 0 && !chat.renamed;
+          const updatedTitle = isFirstMessage
             ? message.length > 30
               ? `${message.substring(0, 30)}...`
               : message
@@ -251,6 +482,7 @@ const App: React.FC = () => {
           return {
             ...chat,
             title: updatedTitle,
+            ...(isFirstMessage && settings.autoTitle && { autoTitlePending: true }),
             timestamp: new Date(),
             messages: [
               ...chat.messages,
@@ -267,12 +499,12 @@ const App: React.FC = () => {
       }));
     }
 
-    // If there's a response, it's a bot message
-    if (response) {
-      const botMessageId = Date.now().toString();
+    // If there's a response (or a failed attempt at one), it's a bot message
+    if (response || details) {
+      const botMessageId = (Date.now() + 1).toString();
 
       setChatHistory(prev => prev.map(chat => {
-        if (chat.id === activeChatId) {
+        if (chat.id === targetChatId) {
           return {
             ...chat,
             timestamp: new Date(),
@@ -282,7 +514,8 @@ const App: React.FC = () => {
                 id: botMessageId,
                 text: response,
                 sender: 'bot',
-                timestamp: new Date()
+                timestamp: new Date(),
+                ...details
               }
             ]
           };
@@ -292,6 +525,102 @@ const App: React.FC = () => {
     }
   };
 
+  // Once a chat's first exchange has a reply, swap the truncated question for a topic title
+  useEffect(() => {
+    const ready = chatHistory.filter(chat =>
+      chat.autoTitlePending && chat.messages.some(m => m.sender === 'bot' && m.text && !m.error)
+    );
+    if (ready.length === 0) return;
+
+    const readyIds = ready.map(chat => chat.id);
+    setChatHistory(prev => prev.map(chat =>
+      readyIds.includes(chat.id) ? { ...chat, autoTitlePending: false } : chat
+    ));
+
+    ready.forEach(chat => {
+      generateTitle(chat.messages)
+        .then(title => {
+          // A rename while the title was being generated wins
+          setChatHistory(prev => prev.map(item =>
+            item.id === chat.id && !item.renamed ? { ...item, title } : item
+          ));
+        })
+        .catch(error => {
+          console.error('Failed to auto-title chat:', error);
+        });
+    });
+  }, [chatHistory]);
+
+  const handleRenameChat = (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+
+    setChatHistory(prev => prev.map(chat =>
+      chat.id === id ? { ...chat, title: trimmed, renamed: true, autoTitlePending: false } : chat
+    ));
+  };
+
+  const handleTogglePinChat = (id: string) => {
+    setChatHistory(prev => prev.map(chat =>
+      chat.id === id ? { ...chat, pinned: !chat.pinned } : chat
+    ));
+  };
+
+  const handleUpdateMessages = (updater: (messages: ChatMessage[]) => ChatMessage[], chatId?: string) => {
+    const targetChatId = chatId || activeChatId;
+
+    setChatHistory(prev => prev.map(chat =>
+      chat.id === targetChatId
+        ? { ...chat, messages: updater(chat.messages) }
+        : chat
+    ));
+  };
+
+  const handleExportChat = (id: string, format: ExportFormat) => {
+    const chat = chatHistory.find(item => item.id === id);
+    if (!chat) return;
+
+    try {
+      exportChat(chat, format);
+    } catch (error) {
+      console.error('Failed to export chat:', error);
+      setSnackbar({
+        open: true,
+        message: error instanceof Error ? error.message : 'Failed to export chat',
+        severity: 'error'
+      });
+    }
+  };
+
+  const handleImportChats = async (file: File) => {
+    try {
+      const imported = parseImportedChats(await file.text(), chatHistory.map(chat => chat.id));
+
+      setChatHistory(prev => [...imported, ...prev]);
+      setActiveChatId(imported[0].id);
+
+      setSnackbar({
+        open: true,
+        message: imported.length === 1
+          ? `Imported "${imported[0].title}"`
+          : `Imported ${imported.length} conversations`,
+        severity: 'success'
+      });
+
+      // Close mobile sidebar if open
+      if (isSmallScreen) {
+        setMobileOpen(false);
+      }
+    } catch (error) {
+      console.error('Failed to import chats:', error);
+      setSnackbar({
+        open: true,
+        message: `Import failed: ${error instanceof Error ? error.message : 'unknown error'}`,
+        severity: 'error'
+      });
+    }
+  };
+
   const toggleMobileSidebar = () => {
     setMobileOpen(!mobileOpen);
   };
@@ -299,6 +628,23 @@ const App: React.FC = () => {
   // Get current chat messages
   const currentChat = chatHistory.find(chat => chat.id === activeChatId);
   const currentMessages = currentChat?.messages || [];
+  // The active chat's own model and temperature over the defaults
+  const chatSettings = { ...settings, ...currentChat?.settings };
+  // Replies can't use a model the server stopped offering; Settings keeps it flagged until the user picks another
+  const replySettings = llmCatalogLoaded
+    ? { ...chatSettings, llmModel: offeredModelId(modelCatalog.llm, chatSettings.llmModel) }
+    : chatSettings;
+  const retiredModelNotice = replySettings.llmModel !== chatSettings.llmModel
+    ? `${chatSettings.llmModel} is no longer available, so replies use ${modelLabel(modelCatalog.llm, replySettings.llmModel)}`
+    : null;
+
+  useEffect(() => {
+    if (retiredModelNotice) setSnackbar({ open: true, message: retiredModelNotice, severity: 'warning' });
+  }, [retiredModelNotice]);
+
+  const documentViewer = viewerLocation && (
+    <DocumentViewer location={viewerLocation} onClose={() => setViewerLocation(null)} />
+  );
 
   return (
     <ThemeProvider theme={theme}>
@@ -311,6 +657,10 @@ const App: React.FC = () => {
             onNewChat={handleNewChat}
             onSelectChat={handleSelectChat}
             onDeleteChat={handleDeleteChat}
+            onRenameChat={handleRenameChat}
+            onTogglePinChat={handleTogglePinChat}
+            onExportChat={handleExportChat}
+            onImportChats={handleImportChats}
             activeChatId={activeChatId || undefined}
           />
         )}
@@ -349,6 +699,10 @@ const App: React.FC = () => {
                 onNewChat={handleNewChat}
                 onSelectChat={handleSelectChat}
                 onDeleteChat={handleDeleteChat}
+                onRenameChat={handleRenameChat}
+                onTogglePinChat={handleTogglePinChat}
+                onExportChat={handleExportChat}
+                onImportChats={handleImportChats}
                 activeChatId={activeChatId || undefined}
               />
             </Box>
@@ -357,50 +711,76 @@ const App: React.FC = () => {
 
         {/* Main Content */}
         <Box sx={{ flexGrow: 1, position: 'relative', overflow: 'hidden' }}>
-          {isSmallScreen && (
-            <IconButton
-              onClick={toggleMobileSidebar}
-              sx={{
-                position: 'absolute',
-                top: 8,
-                left: 8,
-                zIndex: 2000,
-                color: 'white'
-              }}
-            >
-              <MenuIcon />
-            </IconButton>
-          )}
-
-          <Slide direction="right" in={!showSettings && !showUpload} mountOnEnter unmountOnExit>
-            <Box sx={{ position: 'absolute', width: '100%', height: '100%' }}>
-              <ChatInterface
-                settings={settings}
-                messages={currentMessages}
-                onSendMessage={handleSendMessage}
-                onToggleSettings={toggleSettings}
-                onToggleUpload={toggleUpload}
-                onClearHistory={handleClearHistory}
-                onNewChat={handleNewChat}
-              />
-            </Box>
-          </Slide>
-          <Slide direction="left" in={showSettings} mountOnEnter unmountOnExit>
-            <Box sx={{ position: 'absolute', width: '100%', height: '100%' }}>
-              <SettingsPanel
-                settings={settings}
-                onSettingsChange={handleSettingsChange}
-                onToggleSettings={toggleSettings}
-              />
-            </Box>
-          </Slide>
-          <Slide direction="left" in={showUpload} mountOnEnter unmountOnExit>
-            <Box sx={{ position: 'absolute', width: '100%', height: '100%' }}>
-              <PDFUpload onToggleUpload={toggleUpload} />
-            </Box>
-          </Slide>
+          <SplitPane side={!isSmallScreen && documentViewer} sideLabel="document viewer">
+            {isSmallScreen && (
+              <IconButton
+                onClick={toggleMobileSidebar}
+                sx={{
+                  position: 'absolute',
+                  top: 8,
+                  left: 8,
+                  zIndex: 2000,
+                  color: 'white'
+                }}
+              >
+                <MenuIcon />
+              </IconButton>
+            )}
+
+            <Slide direction="right" in={!showSettings && !showUpload} mountOnEnter unmountOnExit>
+              <Box sx={{ position: 'absolute', width: '100%', height: '100%' }}>
+                <ChatInterface
+                  settings={replySettings}
+                  chatId={activeChatId || undefined}
+                  messages={currentMessages}
+                  onSendMessage={handleSendMessage}
+                  onUpdateMessages={handleUpdateMessages}
+                  onToggleSettings={toggleSettings}
+                  onToggleUpload={toggleUpload}
+                  onClearHistory={handleClearHistory}
+                  onNewChat={handleNewChat}
+                  onExportChat={activeChatId ? (format) => handleExportChat(activeChatId, format) : undefined}
+                  focusMessageId={focusMessageId || undefined}
+                  onMessageFocused={() => setFocusMessageId(null)}
+                  onOpenSource={handleOpenSource}
+                  onSettingsChange={handleSettingsChange}
+                  models={modelCatalog.llm}
+                />
+              </Box>
+            </Slide>
+            <Slide direction="left" in={showSettings} mountOnEnter unmountOnExit>
+              <Box sx={{ position: 'absolute', width: '100%', height: '100%' }}>
+                <SettingsPanel
+                  settings={chatSettings}
+                  onSettingsChange={handleSettingsChange}
+                  onToggleSettings={toggleSettings}
+                  models={modelCatalog}
+                  modelsUnavailable={modelCatalogFailed}
+                  saveStatus={settingsStatus}
+                />
+              </Box>
+            </Slide>
+            <Slide direction="left" in={showUpload} mountOnEnter unmountOnExit>
+              <Box sx={{ position: 'absolute', width: '100%', height: '100%' }}>
+                <PDFUpload onToggleUpload={toggleUpload} onOpenDocument={handleOpenDocument} uploads={uploads} />
+              </Box>
+            </Slide>
+          </SplitPane>
         </Box>
 
+        {/* Document viewer - Mobile, over the chat */}
+        {isSmallScreen && (
+          <Drawer
+            anchor="right"
+            variant="temporary"
+            open={Boolean(viewerLocation)}
+            onClose={() => setViewerLocation(null)}
+            sx={{ '& .MuiDrawer-paper': { width: '100%' } }}
+          >
+            {documentViewer}
+          </Drawer>
+        )}
+
         <Snackbar
           open={snackbar.open}
           autoHideDuration={3000}
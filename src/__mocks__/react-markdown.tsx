@@ -0,0 +1,6 @@
+import React from 'react';
+
+// react-markdown ships as ESM only, which Jest can't load; render the raw markdown instead
+const ReactMarkdown: React.FC<{ children?: string }> = ({ children }) => <div>{children}</div>;
+
+export default ReactMarkdown;
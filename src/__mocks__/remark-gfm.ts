@@ -0,0 +1,3 @@
+const remarkGfm = () => undefined;
+
+export default remarkGfm;
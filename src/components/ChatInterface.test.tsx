@@ -0,0 +1,596 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ChatInterface from './ChatInterface';
+import { isAbortError, openTranscriptionStream, streamMessage, transcribeAudio } from '../services/api';
+import { getTtsProvider, SpeakOptions } from '../utils/speech';
+import { createSilenceDetector } from '../utils/vad';
+import { monitorInput } from '../utils/microphone';
+import { ChatSettings, Transcription } from '../types';
+
+jest.mock('../services/api');
+jest.mock('../utils/speech', () => ({
+  ...jest.requireActual('../utils/speech'),
+  getTtsProvider: jest.fn(),
+}));
+jest.mock('../utils/vad', () => ({
+  ...jest.requireActual('../utils/vad'),
+  createSilenceDetector: jest.fn(),
+}));
+jest.mock('../utils/microphone', () => ({
+  ...jest.requireActual('../utils/microphone'),
+  monitorInput: jest.fn(),
+}));
+
+const mockStreamMessage = streamMessage as jest.MockedFunction<typeof streamMessage>;
+const mockGetTtsProvider = getTtsProvider as jest.MockedFunction<typeof getTtsProvider>;
+const mockTranscribeAudio = transcribeAudio as jest.MockedFunction<typeof transcribeAudio>;
+const mockOpenTranscriptionStream = openTranscriptionStream as jest.MockedFunction<typeof openTranscriptionStream>;
+const mockCreateSilenceDetector = createSilenceDetector as jest.MockedFunction<typeof createSilenceDetector>;
+const mockMonitorInput = monitorInput as jest.MockedFunction<typeof monitorInput>;
+const mockIsAbortError = isAbortError as jest.MockedFunction<typeof isAbortError>;
+
+class FakeMediaRecorder {
+  static instances: FakeMediaRecorder[] = [];
+  state: RecordingState = 'inactive';
+  mimeType = 'audio/webm';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor() {
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['audio']) });
+    this.onstop?.();
+  }
+}
+
+// Just enough of the Web Audio API to decode audio that is already 16 kHz mono
+const installFakeAudio = (getUserMedia = jest.fn().mockResolvedValue({ getTracks: () => [{ stop: jest.fn() }] })) => {
+  const buffer = { numberOfChannels: 1, length: 16, sampleRate: 16000, getChannelData: () => new Float32Array(16).fill(0.5) };
+  Object.assign(window, {
+    AudioContext: jest.fn(() => ({
+      decodeAudioData: jest.fn().mockResolvedValue(buffer),
+      close: jest.fn().mockResolvedValue(undefined),
+    })),
+    MediaRecorder: FakeMediaRecorder,
+  });
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: { getUserMedia },
+  });
+  jest.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+};
+
+const heard = (transcript: string): Transcription => ({ transcript, words: [], alternatives: [] });
+
+const settings: ChatSettings = {
+  llmModel: 'llama-3.1-8b-instant',
+  asrModel: 'conformer',
+  asrLanguage: 'auto',
+  temperature: 0.3,
+  transliterationScheme: 'iast',
+  autoTitle: true,
+  ttsProvider: 'browser',
+  speechRate: 1,
+  microphoneId: '',
+  maxRecordingSeconds: 120,
+};
+
+const renderChat = (props: Partial<React.ComponentProps<typeof ChatInterface>> = {}) => render(
+  <ChatInterface
+    settings={settings}
+    onToggleSettings={jest.fn()}
+    onToggleUpload={jest.fn()}
+    onClearHistory={jest.fn()}
+    {...props}
+  />
+);
+
+describe('ChatInterface', () => {
+  beforeEach(() => {
+    mockStreamMessage.mockReset();
+    mockOpenTranscriptionStream.mockRejectedValue(new Error('Live transcription is not available'));
+  });
+
+  it('sends the typed message and shows the reply', async () => {
+    mockStreamMessage.mockImplementation(async (message, context, onToken) => {
+      onToken('Namaste!');
+      return 'Namaste!';
+    });
+    renderChat();
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'Hello guru');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+
+    expect(screen.getByText('Hello guru')).toBeInTheDocument();
+    expect(await screen.findByText('Namaste!')).toBeInTheDocument();
+    expect(mockStreamMessage).toHaveBeenCalledWith('Hello guru', undefined, expect.any(Function), expect.any(Object), expect.any(Function));
+    expect(screen.getByPlaceholderText('Type your message...')).toHaveValue('');
+  });
+
+  it('shows a badge with the model behind a reply', () => {
+    renderChat({
+      messages: [{ id: '1', text: 'Pitta is fire.', sender: 'bot', timestamp: new Date(), generation: { llmModel: 'mystery-model', temperature: 0.5 } }],
+    });
+
+    expect(screen.getByLabelText('Generated by mystery-model at temperature 0.5')).toHaveTextContent('mystery-model · 0.5');
+  });
+
+  it('disables input and offers stop while waiting for the reply', async () => {
+    let resolveReply: (reply: string) => void = () => {};
+    mockStreamMessage.mockImplementation(() => new Promise(resolve => {
+      resolveReply = resolve;
+    }));
+    renderChat();
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'What is vata?');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+
+    expect(screen.getByPlaceholderText('Type your message...')).toBeDisabled();
+    expect(screen.getByRole('button', { name: 'Stop generating' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Send message' })).not.toBeInTheDocument();
+
+    resolveReply('Vata is the air element.');
+
+    expect(await screen.findByText('Vata is the air element.')).toBeInTheDocument();
+    expect(screen.getByPlaceholderText('Type your message...')).toBeEnabled();
+    expect(screen.getByRole('button', { name: 'Send message' })).toBeInTheDocument();
+  });
+
+  it('stops the reply in its own chat when switching chats', async () => {
+    const stopped = new Error('aborted');
+    mockIsAbortError.mockImplementation((error) => error === stopped);
+    mockStreamMessage.mockImplementation((message, context, onToken, signal) => new Promise((resolve, reject) => {
+      onToken('Vata is');
+      signal?.addEventListener('abort', () => reject(stopped));
+    }));
+    const onSendMessage = jest.fn();
+    const chatProps = { onToggleSettings: jest.fn(), onToggleUpload: jest.fn(), onClearHistory: jest.fn(), onSendMessage };
+    const { rerender } = render(<ChatInterface settings={settings} chatId="chat-a" messages={[]} {...chatProps} />);
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'What is vata?');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+    expect(await screen.findByText('Vata is')).toBeInTheDocument();
+
+    rerender(<ChatInterface settings={settings} chatId="chat-b" messages={[]} {...chatProps} />);
+
+    await waitFor(() => expect(screen.getByPlaceholderText('Type your message...')).toBeEnabled());
+    expect(screen.queryByText('Vata is')).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Stop generating' })).not.toBeInTheDocument();
+    const generation = { llmModel: 'llama-3.1-8b-instant', temperature: 0.3 };
+    await waitFor(() => expect(onSendMessage).toHaveBeenLastCalledWith('', 'Vata is', 'chat-a', { stopped: true, generation }));
+
+    // A new question in the other chat is not held up by the stopped one
+    mockStreamMessage.mockResolvedValue('Pitta is fire.');
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'And pitta?');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+    await waitFor(() => expect(onSendMessage).toHaveBeenLastCalledWith('', 'Pitta is fire.', 'chat-b', { generation }));
+  });
+
+  it('passes sent messages to the parent when it manages history', async () => {
+    mockStreamMessage.mockResolvedValue('Reply');
+    const onSendMessage = jest.fn();
+    renderChat({ chatId: 'chat-1', messages: [], onSendMessage });
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'Question');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+
+    await waitFor(() => expect(onSendMessage).toHaveBeenCalledTimes(2));
+    expect(onSendMessage).toHaveBeenNthCalledWith(1, 'Question', '', 'chat-1');
+    const generation = { llmModel: 'llama-3.1-8b-instant', temperature: 0.3 };
+    expect(onSendMessage).toHaveBeenNthCalledWith(2, '', 'Reply', 'chat-1', { generation });
+    expect(mockStreamMessage.mock.calls[0][1]).toEqual({ conversationId: 'chat-1', history: [], generation });
+  });
+
+  it('shows source citations with a preview and opens the cited page', async () => {
+    mockStreamMessage.mockImplementation(async (message, context, onToken, signal, onSources) => {
+      onSources?.([{ documentId: 'doc-1', document: 'charaka-samhita.pdf', page: 42, snippet: 'वायुः पित्तं कफश्चेति' }]);
+      onToken('Vata, pitta and kapha.');
+      return 'Vata, pitta and kapha.';
+    });
+    const onOpenSource = jest.fn();
+    renderChat({ onOpenSource });
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'Doshas?');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+
+    const chip = await screen.findByText('[1] charaka-samhita, p. 42');
+    await userEvent.hover(chip);
+
+    expect(await screen.findByRole('tooltip')).toHaveTextContent('“वायुः पित्तं कफश्चेति”');
+
+    await userEvent.click(chip);
+    expect(onOpenSource).toHaveBeenCalledWith(expect.objectContaining({ documentId: 'doc-1', page: 42 }));
+  });
+
+  it('reads a reply aloud, marking the word being spoken', async () => {
+    let options: SpeakOptions | undefined;
+    const speak = jest.fn((text: string, speakOptions: SpeakOptions) => new Promise<void>((resolve) => {
+      options = speakOptions;
+      speakOptions.signal?.addEventListener('abort', () => resolve());
+    }));
+    mockGetTtsProvider.mockReturnValue({ speak });
+    renderChat({
+      messages: [{ id: 'a1', text: '**Vata** is वात', sender: 'bot', timestamp: new Date() }],
+      onSendMessage: jest.fn(),
+    });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Read aloud' }));
+
+    expect(mockGetTtsProvider).toHaveBeenCalledWith('browser');
+    expect(speak).toHaveBeenCalledWith('Vata is वात', expect.objectContaining({ rate: 1 }));
+
+    act(() => options?.onWord?.(8, 11));
+    expect(screen.getByText('वात', { selector: 'mark' })).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Stop reading' }));
+
+    expect(options?.signal?.aborted).toBe(true);
+    expect(await screen.findByRole('button', { name: 'Read aloud' })).toBeInTheDocument();
+    expect(screen.queryByTestId('spoken-text')).not.toBeInTheDocument();
+  });
+
+  it('runs a hands-free turn: stops on silence, sends, speaks the reply and listens again', async () => {
+    installFakeAudio();
+    FakeMediaRecorder.instances = [];
+    let onFrame: (samples: Float32Array) => void = () => {};
+    mockMonitorInput.mockImplementation((stream, listener) => {
+      onFrame = listener;
+      return jest.fn();
+    });
+    const detectSpeech = jest.fn().mockReturnValue(null);
+    mockCreateSilenceDetector.mockReturnValue(detectSpeech);
+    mockTranscribeAudio.mockResolvedValue(heard('What is vata?'));
+    mockStreamMessage.mockResolvedValue('Vata is the air element.');
+    const speak = jest.fn().mockResolvedValue(undefined);
+    mockGetTtsProvider.mockReturnValue({ speak });
+    renderChat();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Start hands-free mode' }));
+    expect(await screen.findByText(/Listening/)).toBeInTheDocument();
+
+    detectSpeech.mockReturnValueOnce('speech-end');
+    act(() => onFrame(new Float32Array(8)));
+
+    expect(await screen.findByText('Vata is the air element.')).toBeInTheDocument();
+    expect(mockStreamMessage.mock.calls[0][0]).toBe('What is vata?');
+    await waitFor(() => expect(speak).toHaveBeenCalledWith('Vata is the air element.', expect.anything()));
+    // Listening resumes for the next question
+    await waitFor(() => expect(FakeMediaRecorder.instances).toHaveLength(2));
+    expect(FakeMediaRecorder.instances[1].state).toBe('recording');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Stop hands-free mode' }));
+
+    expect(FakeMediaRecorder.instances[1].state).toBe('inactive');
+    expect(mockTranscribeAudio).toHaveBeenCalledTimes(1);
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+
+  it('shows the recording time and stops at the maximum length', async () => {
+    installFakeAudio();
+    FakeMediaRecorder.instances = [];
+    mockMonitorInput.mockReturnValue(jest.fn());
+    mockTranscribeAudio.mockResolvedValue(heard('namaste'));
+    renderChat({ settings: { ...settings, maxRecordingSeconds: 0.1 } });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Start recording' }));
+
+    expect(screen.getByLabelText('Recording time')).toHaveTextContent('0:00 / 0:00');
+    expect(screen.getByRole('img', { name: 'Microphone input level' })).toBeInTheDocument();
+    await waitFor(() => expect(FakeMediaRecorder.instances[0].state).toBe('inactive'));
+    expect(await screen.findByDisplayValue('namaste')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Recording time')).not.toBeInTheDocument();
+  });
+
+  it('shows partial transcripts while recording and keeps the final one', async () => {
+    installFakeAudio();
+    FakeMediaRecorder.instances = [];
+    mockMonitorInput.mockReturnValue(jest.fn());
+    let onPartial: (transcript: string) => void = () => {};
+    const liveStream = { send: jest.fn(), finish: jest.fn().mockResolvedValue(heard('dharma kṣetre kurukṣetre')), cancel: jest.fn() };
+    mockOpenTranscriptionStream.mockImplementation(async (mimeType, language, model, listener) => {
+      onPartial = listener;
+      return liveStream;
+    });
+    renderChat();
+
+    const input = screen.getByPlaceholderText('Type your message...');
+    await userEvent.type(input, 'Translate:');
+    await userEvent.click(screen.getByRole('button', { name: 'Start recording' }));
+    await waitFor(() => expect(mockOpenTranscriptionStream).toHaveBeenCalledWith('audio/webm', 'auto', 'conformer', expect.any(Function)));
+
+    act(() => onPartial('dharma'));
+    expect(input).toHaveValue('Translate: dharma');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Stop recording' }));
+
+    await waitFor(() => expect(input).toHaveValue('Translate: dharma kṣetre kurukṣetre'));
+    expect(liveStream.send).toHaveBeenCalledWith(expect.any(Blob));
+    expect(mockTranscribeAudio).not.toHaveBeenCalled();
+  });
+
+  it('uploads the recording when live transcription fails', async () => {
+    installFakeAudio();
+    FakeMediaRecorder.instances = [];
+    mockMonitorInput.mockReturnValue(jest.fn());
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const liveStream = { send: jest.fn(), finish: jest.fn().mockRejectedValue(new Error('Connection lost')), cancel: jest.fn() };
+    mockOpenTranscriptionStream.mockResolvedValue(liveStream);
+    mockTranscribeAudio.mockResolvedValue(heard('namaste'));
+    renderChat();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Start recording' }));
+    await waitFor(() => expect(mockOpenTranscriptionStream).toHaveBeenCalled());
+    await userEvent.click(screen.getByRole('button', { name: 'Stop recording' }));
+
+    expect(await screen.findByDisplayValue('namaste')).toBeInTheDocument();
+    expect(liveStream.finish).toHaveBeenCalled();
+    expect(mockTranscribeAudio).toHaveBeenCalledTimes(1);
+  });
+
+  it('transcribes an uploaded audio file into the input', async () => {
+    installFakeAudio();
+    mockTranscribeAudio.mockResolvedValue(heard('yoga'));
+    renderChat();
+
+    const file = new File(['ID3 audio'], 'verse.mp3', { type: 'audio/mpeg' });
+    await userEvent.upload(screen.getByTestId('audio-file-input'), file);
+
+    expect(await screen.findByDisplayValue('yoga')).toBeInTheDocument();
+    const sent = mockTranscribeAudio.mock.calls[0][0];
+    expect(sent.type).toBe('audio/wav');
+  });
+
+  it('lets the user correct an unsure word or pick another reading', async () => {
+    installFakeAudio();
+    mockTranscribeAudio.mockResolvedValue({
+      transcript: 'what is vata',
+      words: [
+        { text: 'what', confidence: 0.98, alternatives: [] },
+        { text: 'is', confidence: 0.97, alternatives: [] },
+        { text: 'vata', confidence: 0.35, alternatives: ['vāta', 'pitta'] },
+      ],
+      alternatives: ['what is pitta'],
+    });
+    renderChat({ settings: { ...settings, asrLanguage: 'mixed' } });
+
+    const input = screen.getByPlaceholderText('Type your message...');
+    await userEvent.upload(screen.getByTestId('audio-file-input'), new File(['ID3 audio'], 'q.mp3', { type: 'audio/mpeg' }));
+
+    await waitFor(() => expect(input).toHaveValue('what is vata'));
+    expect(mockTranscribeAudio).toHaveBeenCalledWith(expect.any(Blob), 'mixed', 'conformer', expect.any(Object));
+
+    await userEvent.click(screen.getByRole('button', { name: 'vata (35% sure), pick an alternative' }));
+    await userEvent.click(screen.getByRole('menuitem', { name: 'vāta' }));
+    expect(input).toHaveValue('what is vāta');
+
+    await userEvent.click(screen.getByRole('button', { name: 'what is pitta' }));
+    expect(input).toHaveValue('what is pitta');
+
+    // Typing takes over from the review
+    await userEvent.type(input, '?');
+    expect(screen.queryByRole('region', { name: 'Transcript review' })).not.toBeInTheDocument();
+  });
+
+  it('rejects audio files in an unknown format', async () => {
+    installFakeAudio();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    renderChat();
+
+    const file = new File(['plain text'], 'notes.wav', { type: '' });
+    await userEvent.upload(screen.getByTestId('audio-file-input'), file);
+
+    expect(await screen.findByText(/Could not transcribe the file/)).toBeInTheDocument();
+    expect(mockTranscribeAudio).not.toHaveBeenCalled();
+  });
+
+  it('explains a blocked microphone and lets the user try again', async () => {
+    const getUserMedia = jest.fn().mockRejectedValue(new DOMException('Permission denied', 'NotAllowedError'));
+    installFakeAudio(getUserMedia);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    renderChat();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Start recording' }));
+
+    expect(await screen.findByText(/Microphone access is blocked/)).toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Try again' }));
+    expect(getUserMedia).toHaveBeenCalledTimes(2);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Dismiss recording error' }));
+    expect(screen.queryByText(/Microphone access is blocked/)).not.toBeInTheDocument();
+  });
+
+  it('listens again with the microphone chosen during a hands-free turn', async () => {
+    const getUserMedia = jest.fn().mockResolvedValue({ getTracks: () => [{ stop: jest.fn() }] });
+    installFakeAudio(getUserMedia);
+    FakeMediaRecorder.instances = [];
+    let onFrame: (samples: Float32Array) => void = () => {};
+    mockMonitorInput.mockImplementation((stream, listener) => {
+      onFrame = listener;
+      return jest.fn();
+    });
+    const detectSpeech = jest.fn().mockReturnValue(null);
+    mockCreateSilenceDetector.mockReturnValue(detectSpeech);
+    mockTranscribeAudio.mockResolvedValue(heard('What is vata?'));
+    mockStreamMessage.mockResolvedValue('Vata is the air element.');
+    let finishSpeaking = () => {};
+    const speak = jest.fn(() => new Promise<void>((resolve) => {
+      finishSpeaking = resolve;
+    }));
+    mockGetTtsProvider.mockReturnValue({ speak });
+    const { rerender } = renderChat();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Start hands-free mode' }));
+    expect(await screen.findByText(/Listening/)).toBeInTheDocument();
+    detectSpeech.mockReturnValueOnce('speech-end');
+    act(() => onFrame(new Float32Array(8)));
+    await waitFor(() => expect(speak).toHaveBeenCalled());
+
+    // Switch microphones while the reply is read aloud
+    rerender(
+      <ChatInterface
+        settings={{ ...settings, microphoneId: 'usb-mic' }}
+        onToggleSettings={jest.fn()}
+        onToggleUpload={jest.fn()}
+        onClearHistory={jest.fn()}
+      />
+    );
+    await act(async () => finishSpeaking());
+
+    await waitFor(() => expect(getUserMedia).toHaveBeenCalledTimes(2));
+    expect(getUserMedia).toHaveBeenLastCalledWith({ audio: { deviceId: { exact: 'usb-mic' } } });
+    await userEvent.click(screen.getByRole('button', { name: 'Stop hands-free mode' }));
+  });
+
+  it('replies with the model chosen during a hands-free turn', async () => {
+    installFakeAudio(jest.fn().mockResolvedValue({ getTracks: () => [{ stop: jest.fn() }] }));
+    FakeMediaRecorder.instances = [];
+    let onFrame: (samples: Float32Array) => void = () => {};
+    mockMonitorInput.mockImplementation((stream, listener) => {
+      onFrame = listener;
+      return jest.fn();
+    });
+    const detectSpeech = jest.fn().mockReturnValue(null);
+    mockCreateSilenceDetector.mockReturnValue(detectSpeech);
+    let finishTranscribing = () => {};
+    mockTranscribeAudio.mockImplementation(() => new Promise((resolve) => {
+      finishTranscribing = () => resolve(heard('What is vata?'));
+    }));
+    mockStreamMessage.mockResolvedValue('Vata is the air element.');
+    mockGetTtsProvider.mockReturnValue({ speak: jest.fn().mockResolvedValue(undefined) });
+    const chatProps = { chatId: 'chat-1', messages: [], onSendMessage: jest.fn() };
+    const { rerender } = renderChat(chatProps);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Start hands-free mode' }));
+    expect(await screen.findByText(/Listening/)).toBeInTheDocument();
+    detectSpeech.mockReturnValueOnce('speech-end');
+    act(() => onFrame(new Float32Array(8)));
+    await waitFor(() => expect(mockTranscribeAudio).toHaveBeenCalled());
+
+    // Pick another model while the question is still being transcribed
+    rerender(
+      <ChatInterface
+        settings={{ ...settings, llmModel: 'gemma2-9b-it' }}
+        onToggleSettings={jest.fn()}
+        onToggleUpload={jest.fn()}
+        onClearHistory={jest.fn()}
+        {...chatProps}
+      />
+    );
+    await act(async () => finishTranscribing());
+
+    await waitFor(() => expect(mockStreamMessage).toHaveBeenCalled());
+    expect(mockStreamMessage.mock.calls[0][1]?.generation).toEqual({ llmModel: 'gemma2-9b-it', temperature: 0.3 });
+    await userEvent.click(screen.getByRole('button', { name: 'Stop hands-free mode' }));
+  });
+
+  it('offers the default microphone when the selected one is gone', async () => {
+    const getUserMedia = jest.fn().mockRejectedValue(new DOMException('No such device', 'OverconstrainedError'));
+    installFakeAudio(getUserMedia);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const onSettingsChange = jest.fn();
+    renderChat({ settings: { ...settings, microphoneId: 'usb-mic' }, onSettingsChange });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Start recording' }));
+
+    expect(getUserMedia).toHaveBeenCalledWith({ audio: { deviceId: { exact: 'usb-mic' } } });
+    await userEvent.click(await screen.findByRole('button', { name: 'Use default microphone' }));
+    expect(onSettingsChange).toHaveBeenCalledWith({ microphoneId: '' });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('asks for confirmation before clearing the current chat', async () => {
+    const onClearHistory = jest.fn();
+    renderChat({ onClearHistory });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Clear this chat' }));
+    expect(screen.getByText(/clear the messages in this chat\? Your other chats are kept/)).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+    expect(onClearHistory).not.toHaveBeenCalled();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Clear this chat' }));
+    await userEvent.click(screen.getByRole('button', { name: 'Clear Chat' }));
+    expect(onClearHistory).toHaveBeenCalledTimes(1);
+  });
+
+  it('converts romanized words to Devanagari in transliteration mode', async () => {
+    mockStreamMessage.mockResolvedValue('Reply');
+    renderChat();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Devanagari input' }));
+    const input = screen.getByPlaceholderText('Type in IAST...');
+
+    await userEvent.type(input, 'dharma kṛṣṇa');
+    expect(input).toHaveValue('धर्म kṛṣṇa');
+    expect(screen.getByTestId('transliteration-preview')).toHaveTextContent('धर्म कृष्ण');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+    expect(mockStreamMessage.mock.calls[0][0]).toBe('धर्म कृष्ण');
+  });
+
+  it('converts pasted text and edits in the middle of the message', async () => {
+    renderChat();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Devanagari input' }));
+    const input = screen.getByPlaceholderText('Type in IAST...');
+
+    await userEvent.click(input);
+    await userEvent.paste('tat tvam asi ');
+    expect(input).toHaveValue('तत् त्वम् असि ');
+
+    await userEvent.type(input, 'oṃ ', { initialSelectionStart: 0, initialSelectionEnd: 0 });
+    expect(input).toHaveValue('ओं तत् त्वम् असि ');
+  });
+
+  it('regenerates a reply as a new version', async () => {
+    mockStreamMessage.mockResolvedValueOnce('First answer').mockResolvedValueOnce('Second answer');
+    renderChat();
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'What is ojas?');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+    await screen.findByText('First answer');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Regenerate response' }));
+
+    expect(await screen.findByText('Second answer')).toBeInTheDocument();
+    expect(screen.queryByText('First answer')).not.toBeInTheDocument();
+    expect(screen.getByText('2 / 2')).toBeInTheDocument();
+    expect(mockStreamMessage.mock.calls[1][0]).toBe('What is ojas?');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Previous version' }));
+    expect(screen.getByText('First answer')).toBeInTheDocument();
+    expect(screen.getByText('1 / 2')).toBeInTheDocument();
+  });
+
+  it('branches the conversation when a question is edited', async () => {
+    mockStreamMessage.mockResolvedValueOnce('About vata').mockResolvedValueOnce('About pitta');
+    renderChat();
+
+    await userEvent.type(screen.getByPlaceholderText('Type your message...'), 'What is vata?');
+    await userEvent.click(screen.getByRole('button', { name: 'Send message' }));
+    await screen.findByText('About vata');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Edit message' }));
+    const editor = screen.getByRole('textbox', { name: 'Edit message text' });
+    await userEvent.clear(editor);
+    await userEvent.type(editor, 'What is pitta?');
+    await userEvent.click(screen.getByRole('button', { name: 'Save & Send' }));
+
+    expect(await screen.findByText('About pitta')).toBeInTheDocument();
+    expect(screen.queryByText('About vata')).not.toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Previous version' }));
+    expect(screen.getByText('What is vata?')).toBeInTheDocument();
+    expect(screen.getByText('About vata')).toBeInTheDocument();
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
   Paper,
   Box,
@@ -13,6 +13,9 @@ import {
   DialogTitle,
   Button,
   Tooltip,
+  Alert,
+  ToggleButton,
+  ToggleButtonGroup,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
@@ -24,11 +27,50 @@ import {
   Delete as DeleteIcon,
   Upload as UploadIcon,
   Add as AddIcon,
+  Refresh as RefreshIcon,
+  Stop as StopIcon,
+  Translate as TranslateIcon,
+  FileDownload as ExportIcon,
+  HeadsetMic as HandsFreeIcon,
+  HeadsetOff as HandsFreeOffIcon,
+  Close as CloseIcon,
+  AudioFile as AudioFileIcon,
 } from '@mui/icons-material';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { ChatMessage, ChatSettings, VoiceRecordingState } from '../types';
-import { sendMessage, transcribeAudio } from '../services/api';
+import {
+  BotMessageDetails,
+  ChatMessage,
+  ChatSettings,
+  ExportFormat,
+  GenerationSettings,
+  MessageSource,
+  ModelInfo,
+  Transcription,
+  TransliterationScheme,
+  VoiceRecordingState,
+} from '../types';
+import {
+  getErrorMessage,
+  isAbortError,
+  openTranscriptionStream,
+  streamMessage,
+  transcribeAudio,
+  TranscriptionStream,
+} from '../services/api';
+import { ACCEPTED_AUDIO_FILES, prepareForTranscription } from '../utils/audio';
+import { needsReview } from '../utils/transcript';
+import { modelLabel } from '../utils/models';
+import { convertRomanRuns, SCHEME_LABELS } from '../utils/transliteration';
+import { addVersion, getVersionCount, switchVersion, updateMessage } from '../utils/branches';
+import { getTtsProvider, toSpeakableText } from '../utils/speech';
+import { createSilenceDetector, rmsLevel } from '../utils/vad';
+import { describeMicrophoneError, isRecordingSupported, monitorInput, openMicrophone } from '../utils/microphone';
+import MessageActions, { CopyFormat } from './MessageActions';
+import ExportMenu from './ExportMenu';
+import SourceCitations from './SourceCitations';
+import RecordingIndicator, { SamplesListener } from './RecordingIndicator';
+import TranscriptReview from './TranscriptReview';
 
 // Ayurvedic color palette
 const colors = {
@@ -42,34 +84,145 @@ const colors = {
   border: '#D2B48C', // Tan
 };
 
+// Styles for rendered bot markdown
+const markdownStyles = {
+  '& a': { color: colors.accent, textDecoration: 'underline' },
+  '& p': { margin: '0.5em 0' },
+  '& h1, & h2, & h3, & h4, & h5, & h6': {
+    margin: '0.5em 0',
+    color: colors.text,
+    fontFamily: 'serif',
+    fontWeight: 'bold'
+  },
+  '& h1': { fontSize: '1.6em' },
+  '& h2': { fontSize: '1.4em' },
+  '& h3': { fontSize: '1.2em' },
+  '& h4': { fontSize: '1.1em' },
+  '& h5, & h6': { fontSize: '1em' },
+  '& ul, & ol': { paddingLeft: '1.5em', margin: '0.5em 0' },
+  '& li': { margin: '0.25em 0' },
+  '& blockquote': {
+    borderLeft: `4px solid ${colors.border}`,
+    margin: '0.5em 0',
+    padding: '0 1em',
+    fontStyle: 'italic',
+    color: `${colors.text}cc`
+  },
+  '& img': {
+    maxWidth: '100%',
+    borderRadius: '4px'
+  },
+  '& hr': {
+    border: 'none',
+    borderTop: `1px solid ${colors.border}`,
+    margin: '1em 0'
+  },
+  '& strong': { fontWeight: 'bold' },
+  '& em': { fontStyle: 'italic' },
+  '& code': {
+    fontFamily: 'monospace',
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+    padding: '0.1em 0.3em',
+    borderRadius: '3px',
+    fontSize: '0.9em'
+  },
+  '& pre': {
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+    padding: '0.5em',
+    borderRadius: '4px',
+    overflowX: 'auto',
+    margin: '0.5em 0'
+  },
+  '& pre code': {
+    backgroundColor: 'transparent',
+    padding: 0
+  }
+};
+
+// Where a reply lands: appended as a new turn, written over a failed turn,
+// or added as another version of an existing bot turn
+type ReplyTarget =
+  | { type: 'append' }
+  | { type: 'replace'; messageId: string }
+  | { type: 'newVersion'; messageId: string };
+
+// A bot reply being read aloud, with the word currently spoken
+interface SpokenMessage {
+  messageId: string | null; // Null for a hands-free reply, read before its id is known; it is the latest reply
+  text: string;
+  range: { start: number; end: number } | null;
+}
+
+// Recorder chunk length; also how often live transcription receives audio
+const RECORDING_CHUNK_MS = 250;
+
+// Dictation adds to whatever was already typed
+const appendTranscript = (text: string, transcript: string) => {
+  if (!text.trim()) return transcript;
+  return transcript ? `${text.trimEnd()} ${transcript}` : text;
+};
+
 interface ChatInterfaceProps {
   settings: ChatSettings;
+  chatId?: string;
   messages?: ChatMessage[];
-  onSendMessage?: (message: string, response: string) => void;
+  onSendMessage?: (message: string, response: string, chatId?: string, details?: BotMessageDetails) => void;
+  onUpdateMessages?: (updater: (messages: ChatMessage[]) => ChatMessage[], chatId?: string) => void;
   onToggleSettings: () => void;
   onToggleUpload: () => void;
   onClearHistory: () => void;
   onNewChat?: () => void;
+  onExportChat?: (format: ExportFormat) => void;
+  focusMessageId?: string;
+  onMessageFocused?: () => void;
+  onOpenSource?: (source: MessageSource) => void;
+  onSettingsChange?: (newSettings: Partial<ChatSettings>) => void;
+  models?: ModelInfo[]; // Language models, for naming the one behind each reply
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   settings,
+  chatId,
   messages: externalMessages,
   onSendMessage,
+  onUpdateMessages,
   onToggleSettings,
   onToggleUpload,
   onClearHistory,
   onNewChat,
+  onExportChat,
+  focusMessageId,
+  onMessageFocused,
+  onOpenSource,
+  onSettingsChange,
+  models = [],
 }) => {
   const [localMessages, setLocalMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pendingCaretRef = useRef<number | null>(null); // Where the caret belongs after converting text around it
+  const [transliterationOn, setTransliterationOn] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [pendingTarget, setPendingTarget] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [confirmClearOpen, setConfirmClearOpen] = useState(false);
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [spoken, setSpoken] = useState<SpokenMessage | null>(null);
+  const [speechError, setSpeechError] = useState<{ messageId: string; message: string } | null>(null);
+  const [handsFree, setHandsFree] = useState(false);
   const [voiceState, setVoiceState] = useState<VoiceRecordingState>({
     isRecording: false,
     error: null,
   });
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  // Partial transcript shown in the hands-free status; in normal mode it goes straight into the input
+  const [liveTranscript, setLiveTranscript] = useState<string | null>(null);
+  // A dictated transcript the user can still correct; `base` is the text typed before it
+  const [transcriptReview, setTranscriptReview] = useState<{ base: string; transcription: Transcription } | null>(null);
 
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -77,9 +230,34 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   // Use external messages if provided, otherwise use local state
   const messages = externalMessages || localMessages;
 
+  const spokenMessageId = spoken
+    ? spoken.messageId ?? [...messages].reverse().find(message => message.sender === 'bot')?.id
+    : undefined;
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
+  const replyAbortRef = useRef<AbortController | null>(null);
+  const transcribeAbortRef = useRef<AbortController | null>(null);
+  const speechAbortRef = useRef<AbortController | null>(null);
+  // Hands-free turns run across several renders, so they read the latest state through refs
+  const handsFreeRef = useRef(false);
+  const messagesRef = useRef<ChatMessage[]>([]);
+  const settingsRef = useRef(settings);
+  // The next turn starts listening with the settings of the latest render, not the one the turn began in
+  const startRecordingRef = useRef<() => Promise<void>>();
+  const discardRecordingRef = useRef(false);
+  const audioFileInputRef = useRef<HTMLInputElement>(null);
+  const liveStreamRef = useRef<TranscriptionStream | null>(null);
+  // Input text from before dictation started, which partial transcripts are appended to
+  const transcriptBaseRef = useRef('');
+  // The input monitor runs for the whole recording, feeding the level meter and voice detection
+  const stopMonitorRef = useRef<(() => void) | null>(null);
+  const samplesListenersRef = useRef(new Set<SamplesListener>());
+  const maxDurationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Mirrors streamingText so a cancelled reply can keep what already arrived
+  const streamingTextRef = useRef('');
+  const streamingSourcesRef = useRef<MessageSource[]>([]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -87,230 +265,583 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   useEffect(() => {
     scrollToBottom();
+  }, [messages, streamingText]);
+
+  // Jump to a message picked from search; runs after the scroll-to-bottom above
+  useEffect(() => {
+    if (!focusMessageId) return;
+
+    const element = document.getElementById(`message-${focusMessageId}`);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedMessageId(focusMessageId);
+    }
+    onMessageFocused?.();
+  }, [focusMessageId, messages, onMessageFocused]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const timeoutId = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeoutId);
+  }, [highlightedMessageId]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
   }, [messages]);
 
+  useEffect(() => {
+    settingsRef.current = settings;
+  }, [settings]);
+
+  // Replacing the value moves the caret to the end; put it back where the user was typing
+  useEffect(() => {
+    if (pendingCaretRef.current === null) return;
+    inputRef.current?.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current);
+    pendingCaretRef.current = null;
+  }, [inputText]);
+
+  // Switching chats stops the reply in progress; what already arrived stays in the chat it was asked in
+  const replyChatIdRef = useRef(chatId);
+  useEffect(() => {
+    if (replyChatIdRef.current === chatId) return;
+    replyChatIdRef.current = chatId;
+    if (!replyAbortRef.current) return;
+    replyAbortRef.current.abort();
+    replyAbortRef.current = null;
+    setPendingTarget(null);
+    setStreamingText(null);
+    setIsLoading(false);
+  }, [chatId]);
+
+  // Stop reading aloud and listening when switching or leaving the chat
+  useEffect(() => {
+    const speechAbort = speechAbortRef;
+    const recorder = mediaRecorderRef;
+    const stopMonitor = stopMonitorRef;
+    return () => {
+      handsFreeRef.current = false;
+      setHandsFree(false);
+      speechAbort.current?.abort();
+      stopMonitor.current?.();
+      if (recorder.current?.state === 'recording') {
+        discardRecordingRef.current = true;
+        recorder.current.stop();
+      }
+    };
+  }, [chatId]);
+
+  // Stream the reply into a temporary bubble; the caller finalizes it into the history
+  const fetchBotResponse = (
+    message: string,
+    history: ChatMessage[],
+    generation: GenerationSettings,
+    signal: AbortSignal
+  ): Promise<string> => {
+    const context = chatId ? { conversationId: chatId, history, generation } : undefined;
+
+    streamingTextRef.current = '';
+    streamingSourcesRef.current = [];
+    setStreamingText('');
+    return streamMessage(message, context, (token) => {
+      streamingTextRef.current += token;
+      setStreamingText((prev) => (prev ?? '') + token);
+    }, signal, (sources) => {
+      streamingSourcesRef.current = sources;
+    });
+  };
+
+  // Citations only go on the message when the server sent some
+  const withSources = (details?: BotMessageDetails): BotMessageDetails | undefined => {
+    const sources = streamingSourcesRef.current;
+    return sources.length > 0 ? { ...details, sources } : details;
+  };
+
+  // Applies a change to whichever message store is in use
+  const changeMessages = (updater: (messages: ChatMessage[]) => ChatMessage[]) => {
+    if (onUpdateMessages) {
+      onUpdateMessages(updater, chatId);
+    } else {
+      setLocalMessages(updater);
+    }
+  };
+
+  const createBotMessage = (text: string, details?: BotMessageDetails): ChatMessage => ({
+    id: (Date.now() + 1).toString(),
+    text,
+    sender: 'bot',
+    timestamp: new Date(),
+    ...details,
+  });
+
+  // Puts a finished (or failed) reply where it was requested
+  const deliverReply = (target: ReplyTarget, text: string, details?: BotMessageDetails) => {
+    if (target.type === 'replace') {
+      changeMessages(prev => updateMessage(prev, target.messageId, {
+        text,
+        timestamp: new Date(),
+        error: undefined,
+        stopped: undefined,
+        sources: undefined,
+        generation: undefined,
+        ...details,
+      }));
+    } else if (target.type === 'newVersion') {
+      changeMessages(prev => addVersion(prev, target.messageId, [createBotMessage(text, details)]));
+    } else if (onSendMessage) {
+      onSendMessage('', text, chatId, details);
+    } else {
+      setLocalMessages((prev) => [...prev, createBotMessage(text, details)]);
+    }
+  };
+
+  // Resolves with the reply once delivered, or null if it failed or was stopped
+  const requestReply = async (
+    question: string,
+    history: ChatMessage[],
+    target: ReplyTarget = { type: 'append' }
+  ): Promise<string | null> => {
+    const controller = new AbortController();
+    replyAbortRef.current = controller;
+    // Captured up front so a settings change mid-reply doesn't mislabel it
+    const { llmModel, temperature } = settingsRef.current;
+    const generation = { llmModel, temperature };
+
+    // The turn being redone is hidden while its replacement streams in
+    setPendingTarget(target.type === 'append' ? null : target.messageId);
+    setIsLoading(true);
+    try {
+      const response = await fetchBotResponse(question, history, generation, controller.signal);
+      deliverReply(target, response, withSources({ generation }));
+      return response;
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Keep the partial answer, marked as stopped
+        if (streamingTextRef.current) {
+          deliverReply(target, streamingTextRef.current, withSources({ stopped: true, generation }));
+        }
+        return null;
+      }
+      console.error('Error getting bot response:', error);
+      // Surface the failure in the conversation so the user can retry it
+      deliverReply(target, '', { error: getErrorMessage(error) });
+      return null;
+    } finally {
+      // A reply stopped by switching chats was already cleared, and another may have started since
+      if (replyAbortRef.current === controller) {
+        replyAbortRef.current = null;
+        setPendingTarget(null);
+        setStreamingText(null);
+        setIsLoading(false);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    replyAbortRef.current?.abort();
+  };
+
+  // Convert all romanized text, including the word still being typed
+  const transliterateAll = (text: string) => convertRomanRuns(text, settings.transliterationScheme).text;
+
+  const handleInputChange = (value: string, caret: number | null) => {
+    // Typing over a transcript takes precedence over picking alternatives
+    setTranscriptReview(null);
+    if (!transliterationOn) {
+      setInputText(value);
+      return;
+    }
+
+    // In Devanagari mode romanized words are converted once the caret leaves them, wherever they were typed
+    const converted = convertRomanRuns(value, settings.transliterationScheme, caret ?? value.length);
+    if (converted.text !== value) pendingCaretRef.current = converted.caret;
+    setInputText(converted.text);
+  };
+
+  // Show the user's message right away, then fetch the reply
+  const sendQuestion = async (question: string, history: ChatMessage[]) => {
+    if (onSendMessage) {
+      onSendMessage(question, '', chatId);
+    } else {
+      setLocalMessages((prev) => [...prev, {
+        id: Date.now().toString(),
+        text: question,
+        sender: 'user',
+        timestamp: new Date(),
+      }]);
+    }
+
+    return requestReply(question, history);
+  };
+
   const handleSend = async () => {
     if (!inputText.trim()) return;
 
-    const userMessage: ChatMessage = {
+    const question = transliterationOn ? transliterateAll(inputText) : inputText;
+
+    // Clear input immediately to improve UX
+    setInputText('');
+    setTranscriptReview(null);
+
+    await sendQuestion(question, messages);
+  };
+
+  // Index of the user turn a bot message at `index` answers
+  const findQuestionIndex = (index: number) => {
+    let questionIndex = index - 1;
+    while (questionIndex >= 0 && messages[questionIndex].sender !== 'user') {
+      questionIndex--;
+    }
+    return questionIndex;
+  };
+
+  const redoReply = async (botMessage: ChatMessage, type: 'replace' | 'newVersion') => {
+    const questionIndex = findQuestionIndex(messages.findIndex(message => message.id === botMessage.id));
+    if (questionIndex < 0) return;
+
+    await requestReply(messages[questionIndex].text, messages.slice(0, questionIndex), { type, messageId: botMessage.id });
+  };
+
+  // A failed turn is overwritten; a regenerated one becomes a new version beside the old
+  const handleRetry = (failedMessage: ChatMessage) => redoReply(failedMessage, 'replace');
+
+  const handleRegenerate = (botMessage: ChatMessage) => redoReply(botMessage, 'newVersion');
+
+  const handleStartEdit = (message: ChatMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.text);
+  };
+
+  // Resending an edited question branches the conversation; the original turns stay reachable
+  const handleSubmitEdit = async (message: ChatMessage) => {
+    const text = editText.trim();
+    setEditingMessageId(null);
+    if (!text || text === message.text) return;
+
+    const index = messages.findIndex(m => m.id === message.id);
+    const editedMessage: ChatMessage = {
       id: Date.now().toString(),
-      text: inputText,
+      text,
       sender: 'user',
       timestamp: new Date(),
     };
+    changeMessages(prev => addVersion(prev, message.id, [editedMessage]));
 
-    // If using external message handling
-    if (onSendMessage) {
-      // Clear input immediately to improve UX
-      setInputText('');
-
-      // First, send the user's message with an empty response to display it immediately
-      onSendMessage(inputText, '');
-
-      // Then get the actual response
-      setIsLoading(true);
-      try {
-        const response = await sendMessage(inputText);
-        onSendMessage('', response); // Only pass the response to update
-      } catch (error) {
-        console.error('Error getting bot response:', error);
-      } finally {
-        setIsLoading(false);
+    await requestReply(text, messages.slice(0, index));
+  };
+
+  const handleSwitchVersion = (message: ChatMessage, versionIndex: number) => {
+    changeMessages(prev => switchVersion(prev, message.id, versionIndex));
+  };
+
+  const handleCopy = async (message: ChatMessage, format: CopyFormat) => {
+    let text = message.text;
+    if (format === 'plain' && message.sender === 'bot') {
+      // Take the text as rendered, without markdown syntax
+      const rendered = document.getElementById(`message-${message.id}`);
+      text = rendered?.innerText || rendered?.textContent || message.text;
+    }
+    await navigator.clipboard.writeText(text);
+  };
+
+  // Resolves once the text has been read out, stopped, or failed
+  const speakAloud = async (messageId: string | null, markdown: string) => {
+    speechAbortRef.current?.abort();
+    const controller = new AbortController();
+    speechAbortRef.current = controller;
+    const text = toSpeakableText(markdown);
+    setSpeechError(null);
+    setSpoken({ messageId, text, range: null });
+
+    try {
+      const { ttsProvider, speechRate } = settingsRef.current;
+      await getTtsProvider(ttsProvider).speak(text, {
+        rate: speechRate,
+        signal: controller.signal,
+        onWord: (start, end) => setSpoken(prev => (
+          prev?.messageId === messageId ? { ...prev, range: { start, end } } : prev
+        )),
+      });
+    } catch (error) {
+      console.error('Error reading message aloud:', error);
+      const failedId = messageId ?? [...messagesRef.current].reverse().find(message => message.sender === 'bot')?.id;
+      if (failedId) setSpeechError({ messageId: failedId, message: getErrorMessage(error) });
+    } finally {
+      // A newer playback owns the state now
+      if (speechAbortRef.current === controller) {
+        speechAbortRef.current = null;
+        setSpoken(null);
       }
     }
-    // If using local messages
-    else {
-      // Add user message immediately
-      setLocalMessages((prev) => [...prev, userMessage]);
-      setInputText('');
-      setIsLoading(true);
-
-      try {
-        const response = await sendMessage(inputText);
-        const botMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          text: response,
-          sender: 'bot',
-          timestamp: new Date(),
-        };
-        setLocalMessages((prev) => [...prev, botMessage]);
-      } catch (error) {
-        console.error('Error getting bot response:', error);
-      } finally {
-        setIsLoading(false);
+  };
+
+  // Pressing read-aloud again on the message being read stops it
+  const handleSpeak = (message: ChatMessage) => {
+    if (spokenMessageId === message.id) {
+      speechAbortRef.current?.abort();
+    } else {
+      speakAloud(message.id, message.text);
+    }
+  };
+
+  // One hands-free turn: send what was heard, read the reply aloud, then listen again
+  const continueHandsFree = async (transcript: string) => {
+    if (transcript.trim()) {
+      const reply = await sendQuestion(transcript.trim(), messagesRef.current);
+      if (reply && handsFreeRef.current) {
+        await speakAloud(null, reply);
+      }
+    }
+    if (handsFreeRef.current) {
+      startRecordingRef.current?.();
+    }
+  };
+
+  const stopHandsFree = () => {
+    handsFreeRef.current = false;
+    setHandsFree(false);
+    speechAbortRef.current?.abort();
+    if (mediaRecorderRef.current?.state === 'recording') {
+      discardRecordingRef.current = true;
+      mediaRecorderRef.current.stop();
+    }
+  };
+
+  const toggleHandsFree = () => {
+    if (handsFreeRef.current) {
+      stopHandsFree();
+      return;
+    }
+    handsFreeRef.current = true;
+    setHandsFree(true);
+    if (!voiceState.isRecording) {
+      startRecording();
+    }
+  };
+
+  // Converts the audio to 16 kHz mono WAV and transcribes it; null when it failed or was cancelled
+  const transcribe = async (
+    audio: Blob,
+    source: 'recording' | 'file',
+    liveStream: TranscriptionStream | null = null
+  ): Promise<Transcription | null> => {
+    setIsTranscribing(true);
+    const controller = new AbortController();
+    transcribeAbortRef.current = controller;
+
+    try {
+      if (liveStream) {
+        controller.signal.addEventListener('abort', liveStream.cancel, { once: true });
+        try {
+          return await liveStream.finish();
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // The upload below still has the whole recording
+          console.error('Live transcription failed, uploading the recording instead:', error);
+        }
       }
+
+      const wav = await prepareForTranscription(audio);
+      if (controller.signal.aborted) return null;
+
+      // Send to backend for transcription
+      const { asrLanguage, asrModel } = settingsRef.current;
+      return await transcribeAudio(wav, asrLanguage, asrModel, controller.signal);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error processing audio:', error);
+        setVoiceState({
+          isRecording: false,
+          error: `Could not transcribe the ${source}: ${getErrorMessage(error)}`
+        });
+      }
+      return null;
+    } finally {
+      transcribeAbortRef.current = null;
+      setIsTranscribing(false);
+    }
+  };
+
+  const handleAudioFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    setVoiceState({ isRecording: false, error: null });
+    const base = inputText;
+    const transcription = await transcribe(file, 'file');
+    if (transcription !== null) {
+      showTranscription(base, transcription);
     }
   };
 
+  // Puts a finished transcript in the input, offering corrections when the recognizer was unsure
+  const showTranscription = (base: string, transcription: Transcription) => {
+    setInputText(appendTranscript(base, transcription.transcript));
+    setTranscriptReview(needsReview(transcription) ? { base, transcription } : null);
+  };
+
+  const handleTranscriptChange = (transcription: Transcription) => {
+    if (!transcriptReview) return;
+    showTranscription(transcriptReview.base, transcription);
+  };
+
+  const showPartialTranscript = (transcript: string) => {
+    if (handsFreeRef.current) {
+      setLiveTranscript(transcript);
+    } else {
+      setInputText(appendTranscript(transcriptBaseRef.current, transcript));
+    }
+  };
+
+  const subscribeToSamples = useCallback((listener: SamplesListener) => {
+    const listeners = samplesListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
   const startRecording = async () => {
+    let stream: MediaStream | null = null;
     try {
       setVoiceState({ isRecording: true, error: null });
+      if (!isRecordingSupported()) {
+        throw new DOMException('Recording is not supported', 'NotSupportedError');
+      }
 
       // Get audio stream
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream = await openMicrophone(settings.microphoneId);
+      const activeStream = stream;
 
       // Create media recorder
       const mediaRecorder = new MediaRecorder(stream);
       mediaRecorderRef.current = mediaRecorder;
       audioChunksRef.current = [];
+      discardRecordingRef.current = false;
+
+      // In hands-free mode, also stop once the user has finished speaking
+      const detectSpeech = handsFreeRef.current ? createSilenceDetector() : null;
+      stopMonitorRef.current = monitorInput(stream, (samples) => {
+        samplesListenersRef.current.forEach(listener => listener(samples));
+        if (detectSpeech?.(rmsLevel(samples), Date.now()) === 'speech-end') stopRecording();
+      });
+
+      // Transcribe while the user speaks if the server supports it; otherwise the recording is uploaded when it stops
+      liveStreamRef.current = null;
+      transcriptBaseRef.current = inputText;
+      setLiveTranscript(null);
+      setTranscriptReview(null);
+      openTranscriptionStream(mediaRecorder.mimeType, settings.asrLanguage, settings.asrModel, showPartialTranscript)
+        .then((liveStream) => {
+          if (mediaRecorderRef.current !== mediaRecorder || mediaRecorder.state === 'inactive') {
+            // Connected too late to help
+            liveStream.cancel();
+            return;
+          }
+          // Catch up on audio recorded while connecting
+          audioChunksRef.current.forEach(chunk => liveStream.send(chunk));
+          liveStreamRef.current = liveStream;
+        })
+        .catch(() => {
+          // Live transcription is unavailable; the batch upload covers it
+        });
 
       // Set up event listeners
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          liveStreamRef.current?.send(event.data);
         }
       };
 
       mediaRecorder.onstop = async () => {
+        stopMonitorRef.current?.();
+        stopMonitorRef.current = null;
+        if (maxDurationTimerRef.current) clearTimeout(maxDurationTimerRef.current);
+        maxDurationTimerRef.current = null;
+        // Release the microphone right away; hands-free mode reopens it for the next turn
+        activeStream.getTracks().forEach(track => track.stop());
+        setRecordingStartedAt(null);
         setVoiceState({ isRecording: false, error: null });
-        setIsTranscribing(true);
+        const liveStream = liveStreamRef.current;
+        liveStreamRef.current = null;
 
-        try {
-          // Convert to 16kHz audio
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
-          const resampledBlob = await resampleAudio(audioBlob, 16000);
+        if (discardRecordingRef.current) {
+          discardRecordingRef.current = false;
+          liveStream?.cancel();
+          setLiveTranscript(null);
+          return;
+        }
 
-          // Send to backend for transcription
-          const transcript = await transcribeAudio(resampledBlob);
+        // Recorders produce webm or ogg depending on the browser, whatever the chunks claim
+        const transcription = await transcribe(
+          new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType }),
+          'recording',
+          liveStream
+        );
+        setLiveTranscript(null);
 
+        if (transcription === null) {
+          // Don't keep listening in a loop when something went wrong
+          if (handsFreeRef.current) {
+            stopHandsFree();
+          } else {
+            setInputText(transcriptBaseRef.current);
+          }
+        } else if (handsFreeRef.current) {
+          await continueHandsFree(transcription.transcript);
+        } else {
           // Update input field with transcription
-          setInputText(transcript);
-        } catch (error) {
-          console.error('Error processing audio:', error);
-          setVoiceState({
-            isRecording: false,
-            error: 'Error processing audio'
-          });
-        } finally {
-          setIsTranscribing(false);
+          showTranscription(transcriptBaseRef.current, transcription);
         }
-
-        // Stop all tracks
-        stream.getTracks().forEach(track => track.stop());
       };
 
-      // Start recording
-      mediaRecorder.start();
+      // Start recording; long recordings are cut off at the configured limit
+      maxDurationTimerRef.current = setTimeout(stopRecording, settings.maxRecordingSeconds * 1000);
+      setRecordingStartedAt(Date.now());
+      mediaRecorder.start(RECORDING_CHUNK_MS);
 
     } catch (error) {
       console.error('Error starting recording:', error);
+      stopMonitorRef.current?.();
+      stopMonitorRef.current = null;
+      stream?.getTracks().forEach(track => track.stop());
+      const { kind, message } = describeMicrophoneError(error);
       setVoiceState({
         isRecording: false,
-        error: 'Error starting recording'
+        error: message,
+        errorKind: kind,
       });
+      if (handsFreeRef.current) stopHandsFree();
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
-    }
-  };
-
-  // Function to resample audio to 16kHz
-  const resampleAudio = async (audioBlob: Blob, targetSampleRate: number): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const fileReader = new FileReader();
-
-      fileReader.onload = async (event) => {
-        if (!event.target) {
-          reject(new Error('Error reading file'));
-          return;
-        }
-
-        const arrayBuffer = event.target.result as ArrayBuffer;
-
-        try {
-          // Create audio context
-          const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-            sampleRate: targetSampleRate
-          });
-
-          // Decode audio
-          const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-          // Create offline context for resampling
-          const offlineContext = new OfflineAudioContext(
-            audioBuffer.numberOfChannels,
-            audioBuffer.duration * targetSampleRate,
-            targetSampleRate
-          );
-
-          // Create buffer source
-          const source = offlineContext.createBufferSource();
-          source.buffer = audioBuffer;
-          source.connect(offlineContext.destination);
-
-          // Start source and render
-          source.start(0);
-          const renderedBuffer = await offlineContext.startRendering();
-
-          // Convert to wav
-          const wavBlob = bufferToWav(renderedBuffer);
-          resolve(wavBlob);
-
-        } catch (error) {
-          reject(error);
-        }
-      };
-
-      fileReader.onerror = () => {
-        reject(new Error('Error reading file'));
-      };
+  useEffect(() => {
+    startRecordingRef.current = startRecording;
+  });
 
-      fileReader.readAsArrayBuffer(audioBlob);
-    });
+  const dismissVoiceError = () => {
+    setVoiceState(prev => ({ ...prev, error: null, errorKind: undefined }));
   };
 
-  // Convert AudioBuffer to WAV format
-  const bufferToWav = (buffer: AudioBuffer): Blob => {
-    const numOfChannels = buffer.numberOfChannels;
-    const length = buffer.length * numOfChannels * 2;
-    const sampleRate = buffer.sampleRate;
-    const wavDataView = new DataView(new ArrayBuffer(44 + length));
-
-    // WAV header
-    writeString(wavDataView, 0, 'RIFF');
-    wavDataView.setUint32(4, 36 + length, true);
-    writeString(wavDataView, 8, 'WAVE');
-    writeString(wavDataView, 12, 'fmt ');
-    wavDataView.setUint32(16, 16, true);
-    wavDataView.setUint16(20, 1, true);
-    wavDataView.setUint16(22, numOfChannels, true);
-    wavDataView.setUint32(24, sampleRate, true);
-    wavDataView.setUint32(28, sampleRate * numOfChannels * 2, true);
-    wavDataView.setUint16(32, numOfChannels * 2, true);
-    wavDataView.setUint16(34, 16, true);
-    writeString(wavDataView, 36, 'data');
-    wavDataView.setUint32(40, length, true);
-
-    // Write audio data
-    const channels = [];
-    for (let i = 0; i < numOfChannels; i++) {
-      channels.push(buffer.getChannelData(i));
-    }
-
-    let offset = 44;
-    for (let i = 0; i < buffer.length; i++) {
-      for (let j = 0; j < numOfChannels; j++) {
-        const sample = Math.max(-1, Math.min(1, channels[j][i]));
-        wavDataView.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
-        offset += 2;
-      }
-    }
-
-    return new Blob([wavDataView], { type: 'audio/wav' });
+  const switchToDefaultMicrophone = () => {
+    onSettingsChange?.({ microphoneId: '' });
+    dismissVoiceError();
   };
 
-  // Helper function to write string to DataView
-  const writeString = (dataView: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      dataView.setUint8(offset + i, string.charCodeAt(i));
+  const stopRecording = () => {
+    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
+      mediaRecorderRef.current.stop();
     }
   };
 
   const toggleRecording = () => {
-    if (voiceState.isRecording) {
+    if (isTranscribing) {
+      // Clicking the spinner cancels the pending transcription
+      transcribeAbortRef.current?.abort();
+    } else if (voiceState.isRecording) {
       stopRecording();
     } else {
       startRecording();
@@ -331,6 +862,12 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     setConfirmClearOpen(false);
   };
 
+  const transliteratedPreview = transliterationOn ? transliterateAll(inputText) : '';
+
+  // Hide the turn being regenerated or retried (and anything after it) until the new reply lands
+  const pendingIndex = pendingTarget ? messages.findIndex(message => message.id === pendingTarget) : -1;
+  const visibleMessages = pendingIndex >= 0 ? messages.slice(0, pendingIndex) : messages;
+
   return (
     <Box sx={{
       height: '100vh',
@@ -384,13 +921,30 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               </IconButton>
             </Tooltip>
           )}
-          <IconButton onClick={onToggleUpload} sx={{ color: 'inherit' }}>
+          {onExportChat && (
+            <>
+              <IconButton
+                onClick={(e) => setExportMenuAnchor(e.currentTarget)}
+                aria-label="Export chat"
+                disabled={messages.length === 0}
+                sx={{ color: 'inherit', '&.Mui-disabled': { color: 'inherit', opacity: 0.5 } }}
+              >
+                <ExportIcon />
+              </IconButton>
+              <ExportMenu
+                anchorEl={exportMenuAnchor}
+                onClose={() => setExportMenuAnchor(null)}
+                onExport={onExportChat}
+              />
+            </>
+          )}
+          <IconButton onClick={onToggleUpload} aria-label="Upload documents" sx={{ color: 'inherit' }}>
             <UploadIcon />
           </IconButton>
-          <IconButton onClick={onToggleSettings} sx={{ color: 'inherit' }}>
+          <IconButton onClick={onToggleSettings} aria-label="Settings" sx={{ color: 'inherit' }}>
             <SettingsIcon />
           </IconButton>
-          <IconButton onClick={handleOpenClearConfirm} sx={{ color: 'inherit' }}>
+          <IconButton onClick={handleOpenClearConfirm} aria-label="Clear this chat" sx={{ color: 'inherit' }}>
             <DeleteIcon />
           </IconButton>
         </Box>
@@ -407,7 +961,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         gap: 2,
         bgcolor: colors.background
       }}>
-        {messages.length === 0 ? (
+        {visibleMessages.length === 0 && streamingText === null ? (
           <Box
             sx={{
               display: 'flex',
@@ -445,95 +999,292 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             </Typography>
           </Box>
         ) : (
-          messages.map((message) => (
-            <Box
-              key={message.id}
-              sx={{
-                alignSelf: message.sender === 'user' ? 'flex-end' : 'flex-start',
-                maxWidth: '70%',
-              }}
-            >
-              <Paper
-                elevation={0}
+          visibleMessages.map((message) => {
+            const versionActions = {
+              align: (message.sender === 'user' ? 'flex-end' : 'flex-start') as 'flex-start' | 'flex-end',
+              disabled: isLoading,
+              versionCount: getVersionCount(message),
+              versionIndex: message.versionIndex ?? 0,
+              onSwitchVersion: (versionIndex: number) => handleSwitchVersion(message, versionIndex),
+            };
+
+            return message.error ? (
+              <Box key={message.id} sx={{ alignSelf: 'flex-start', maxWidth: '70%' }}>
+                <Alert
+                  severity="error"
+                  action={
+                    <Button
+                      size="small"
+                      color="inherit"
+                      startIcon={<RefreshIcon />}
+                      onClick={() => handleRetry(message)}
+                      disabled={isLoading}
+                    >
+                      Retry
+                    </Button>
+                  }
+                  sx={{ borderRadius: 2, boxShadow: '0 2px 4px rgba(0,0,0,0.1)' }}
+                >
+                  {message.error}
+                </Alert>
+                <MessageActions {...versionActions} />
+              </Box>
+            ) : editingMessageId === message.id ? (
+              <Box key={message.id} sx={{ alignSelf: 'flex-end', width: '70%' }}>
+                <Paper elevation={0} sx={{ p: 2, borderRadius: 2, border: `1px solid ${colors.border}` }}>
+                  <TextField
+                    fullWidth
+                    multiline
+                    autoFocus
+                    variant="standard"
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    inputProps={{ 'aria-label': 'Edit message text' }}
+                  />
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, mt: 1 }}>
+                    <Button size="small" onClick={() => setEditingMessageId(null)} sx={{ color: colors.text }}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      onClick={() => handleSubmitEdit(message)}
+                      disabled={!editText.trim()}
+                      sx={{ bgcolor: colors.primary, '&:hover': { bgcolor: colors.accent } }}
+                    >
+                      Save & Send
+                    </Button>
+                  </Box>
+                </Paper>
+              </Box>
+            ) : (
+              <Box
+                key={message.id}
                 sx={{
-                  p: 2,
-                  backgroundColor: message.sender === 'user' ? colors.messageUser : colors.messageBot,
-                  color: message.sender === 'user' ? '#fff' : colors.text,
-                  borderRadius: 2,
-                  whiteSpace: 'pre-wrap',
-                  boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+                  alignSelf: message.sender === 'user' ? 'flex-end' : 'flex-start',
+                  maxWidth: '70%',
                 }}
               >
-                {message.sender === 'user' ? (
-                  message.text
-                ) : (
-                  <Box sx={{
-                    '& a': { color: colors.accent, textDecoration: 'underline' },
-                    '& p': { margin: '0.5em 0' },
-                    '& h1, & h2, & h3, & h4, & h5, & h6': {
-                      margin: '0.5em 0',
-                      color: colors.text,
-                      fontFamily: 'serif',
-                      fontWeight: 'bold'
-                    },
-                    '& h1': { fontSize: '1.6em' },
-                    '& h2': { fontSize: '1.4em' },
-                    '& h3': { fontSize: '1.2em' },
-                    '& h4': { fontSize: '1.1em' },
-                    '& h5, & h6': { fontSize: '1em' },
-                    '& ul, & ol': { paddingLeft: '1.5em', margin: '0.5em 0' },
-                    '& li': { margin: '0.25em 0' },
-                    '& blockquote': {
-                      borderLeft: `4px solid ${colors.border}`,
-                      margin: '0.5em 0',
-                      padding: '0 1em',
-                      fontStyle: 'italic',
-                      color: `${colors.text}cc`
-                    },
-                    '& img': {
-                      maxWidth: '100%',
-                      borderRadius: '4px'
-                    },
-                    '& hr': {
-                      border: 'none',
-                      borderTop: `1px solid ${colors.border}`,
-                      margin: '1em 0'
-                    },
-                    '& strong': { fontWeight: 'bold' },
-                    '& em': { fontStyle: 'italic' },
-                    '& code': {
-                      fontFamily: 'monospace',
-                      backgroundColor: 'rgba(0, 0, 0, 0.05)',
-                      padding: '0.1em 0.3em',
-                      borderRadius: '3px',
-                      fontSize: '0.9em'
-                    },
-                    '& pre': {
-                      backgroundColor: 'rgba(0, 0, 0, 0.05)',
-                      padding: '0.5em',
-                      borderRadius: '4px',
-                      overflowX: 'auto',
-                      margin: '0.5em 0'
-                    },
-                    '& pre code': {
-                      backgroundColor: 'transparent',
-                      padding: 0
-                    }
-                  }}>
-                    <ReactMarkdown
-                      remarkPlugins={[remarkGfm]}
-                    >
-                      {message.text}
-                    </ReactMarkdown>
-                  </Box>
+                <Paper
+                  id={`message-${message.id}`}
+                  elevation={0}
+                  sx={{
+                    p: 2,
+                    backgroundColor: message.sender === 'user' ? colors.messageUser : colors.messageBot,
+                    color: message.sender === 'user' ? '#fff' : colors.text,
+                    borderRadius: 2,
+                    whiteSpace: 'pre-wrap',
+                    boxShadow: highlightedMessageId === message.id
+                      ? `0 0 0 3px ${colors.secondary}`
+                      : '0 2px 4px rgba(0,0,0,0.1)',
+                    transition: 'box-shadow 0.3s ease'
+                  }}
+                >
+                  {message.sender === 'user' ? (
+                    message.text
+                  ) : spoken && spokenMessageId === message.id ? (
+                    // Plain text while speaking so the current word can be marked
+                    <Box data-testid="spoken-text" sx={{ lineHeight: 1.6 }}>
+                      {spoken.range ? (
+                        <>
+                          {spoken.text.slice(0, spoken.range.start)}
+                          <Box
+                            component="mark"
+                            sx={{ bgcolor: `${colors.secondary}66`, color: 'inherit', borderRadius: 0.5, px: 0.25 }}
+                          >
+                            {spoken.text.slice(spoken.range.start, spoken.range.end)}
+                          </Box>
+                          {spoken.text.slice(spoken.range.end)}
+                        </>
+                      ) : spoken.text}
+                    </Box>
+                  ) : (
+                    <Box sx={markdownStyles}>
+                      <ReactMarkdown
+                        remarkPlugins={[remarkGfm]}
+                      >
+                        {message.text}
+                      </ReactMarkdown>
+                    </Box>
+                  )}
+                </Paper>
+                {message.sources && message.sources.length > 0 && (
+                  <SourceCitations sources={message.sources} onOpenSource={onOpenSource} />
                 )}
-              </Paper>
-            </Box>
-          ))
+                {speechError?.messageId === message.id && (
+                  <Typography variant="caption" role="alert" sx={{ display: 'block', mt: 0.5, color: 'error.main' }}>
+                    {speechError.message}
+                  </Typography>
+                )}
+                {message.stopped && (
+                  <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: `${colors.text}99`, fontStyle: 'italic' }}>
+                    Stopped
+                  </Typography>
+                )}
+                {message.generation && (
+                  <Typography
+                    variant="caption"
+                    aria-label={`Generated by ${modelLabel(models, message.generation.llmModel)} at temperature ${message.generation.temperature}`}
+                    sx={{
+                      display: 'inline-block',
+                      mt: 0.5,
+                      px: 0.75,
+                      border: `1px solid ${colors.border}`,
+                      borderRadius: 1,
+                      color: `${colors.text}99`,
+                      fontSize: '0.7rem',
+                    }}
+                  >
+                    {modelLabel(models, message.generation.llmModel)} · {message.generation.temperature}
+                  </Typography>
+                )}
+                <MessageActions
+                  {...versionActions}
+                  onCopy={(format) => handleCopy(message, format)}
+                  onRegenerate={message.sender === 'bot' ? () => handleRegenerate(message) : undefined}
+                  onSpeak={message.sender === 'bot' ? () => handleSpeak(message) : undefined}
+                  isSpeaking={spokenMessageId === message.id}
+                  onEdit={message.sender === 'user' ? () => handleStartEdit(message) : undefined}
+                />
+              </Box>
+            );
+          })
+        )}
+        {streamingText !== null && (
+          <Box sx={{ alignSelf: 'flex-start', maxWidth: '70%' }}>
+            <Paper
+              elevation={0}
+              sx={{
+                p: 2,
+                backgroundColor: colors.messageBot,
+                color: colors.text,
+                borderRadius: 2,
+                whiteSpace: 'pre-wrap',
+                boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
+              }}
+            >
+              {streamingText ? (
+                <Box sx={markdownStyles}>
+                  <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                    {streamingText}
+                  </ReactMarkdown>
+                </Box>
+              ) : (
+                <CircularProgress size={16} sx={{ color: colors.primary }} />
+              )}
+            </Paper>
+          </Box>
         )}
         <div ref={messagesEndRef} />
       </Box>
 
+      {/* Transliteration preview */}
+      {transliterationOn && (
+        <Box sx={{
+          px: 3,
+          py: 1,
+          borderTop: `1px solid ${colors.border}`,
+          bgcolor: colors.messageBot,
+          display: 'flex',
+          alignItems: 'center',
+          gap: 2,
+          flexWrap: 'wrap'
+        }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={settings.transliterationScheme}
+            onChange={(e, scheme: TransliterationScheme | null) => {
+              if (scheme) onSettingsChange?.({ transliterationScheme: scheme });
+            }}
+            aria-label="Romanization scheme"
+          >
+            {(Object.keys(SCHEME_LABELS) as TransliterationScheme[]).map((scheme) => (
+              <ToggleButton key={scheme} value={scheme} sx={{ textTransform: 'none', py: 0.25 }}>
+                {SCHEME_LABELS[scheme]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <Typography data-testid="transliteration-preview" sx={{ color: colors.text, fontSize: '1.1rem' }}>
+            {transliteratedPreview}
+          </Typography>
+        </Box>
+      )}
+
+      {/* Corrections for the last dictation */}
+      {transcriptReview && !voiceState.isRecording && (
+        <TranscriptReview
+          transcription={transcriptReview.transcription}
+          onChange={handleTranscriptChange}
+          onDismiss={() => setTranscriptReview(null)}
+        />
+      )}
+
+      {/* Recording level and time */}
+      {voiceState.isRecording && recordingStartedAt !== null && (
+        <RecordingIndicator
+          startedAt={recordingStartedAt}
+          maxDurationMs={settings.maxRecordingSeconds * 1000}
+          subscribe={subscribeToSamples}
+        />
+      )}
+
+      {/* Recording errors */}
+      {voiceState.error && (
+        <Alert
+          severity="error"
+          sx={{ borderRadius: 0, borderTop: `1px solid ${colors.border}` }}
+          action={
+            <Box sx={{ display: 'flex', alignItems: 'center' }}>
+              {voiceState.errorKind === 'device-unavailable' && onSettingsChange && (
+                <Button color="inherit" size="small" onClick={switchToDefaultMicrophone}>
+                  Use default microphone
+                </Button>
+              )}
+              {(voiceState.errorKind === 'permission' || voiceState.errorKind === 'no-device' || voiceState.errorKind === 'busy') && (
+                <Button color="inherit" size="small" onClick={() => startRecording()}>
+                  Try again
+                </Button>
+              )}
+              <IconButton color="inherit" size="small" onClick={dismissVoiceError} aria-label="Dismiss recording error">
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          }
+        >
+          {voiceState.error}
+        </Alert>
+      )}
+
+      {/* Hands-free status */}
+      {handsFree && (
+        <Box
+          role="status"
+          sx={{
+            py: 0.75,
+            px: 3,
+            borderTop: `1px solid ${colors.border}`,
+            bgcolor: `${colors.accent}10`,
+            color: colors.accent,
+            display: 'flex',
+            alignItems: 'center',
+            gap: 1,
+            fontSize: '0.85rem',
+          }}
+        >
+          <HandsFreeIcon fontSize="small" />
+          {voiceState.isRecording
+            ? liveTranscript ? `“${liveTranscript}”` : 'Listening… speak, then pause to send'
+            : isTranscribing
+              ? 'Transcribing…'
+              : isLoading
+                ? 'Waiting for the reply…'
+                : spoken
+                  ? 'Speaking the reply…'
+                  : 'Hands-free mode'}
+        </Box>
+      )}
+
       {/* Input Area */}
       <Box sx={{
         py: 2,
@@ -545,7 +1296,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       }}>
         <IconButton
           onClick={toggleRecording}
-          disabled={isTranscribing}
+          aria-label={isTranscribing ? 'Cancel transcription' : voiceState.isRecording ? 'Stop recording' : 'Start recording'}
           sx={{
             color: voiceState.isRecording
               ? colors.accent
@@ -566,12 +1317,82 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             voiceState.isRecording ? <MicOffIcon /> : <MicIcon />
           )}
         </IconButton>
+        <Tooltip title={handsFree ? 'End hands-free conversation' : 'Hands-free conversation'}>
+          <span>
+            <IconButton
+              onClick={toggleHandsFree}
+              aria-label={handsFree ? 'Stop hands-free mode' : 'Start hands-free mode'}
+              disabled={!handsFree && (isLoading || isTranscribing)}
+              sx={{
+                color: handsFree ? colors.accent : colors.primary,
+                bgcolor: handsFree ? `${colors.accent}15` : 'transparent',
+                '&:hover': {
+                  bgcolor: `${colors.primary}10`
+                },
+                '&.Mui-disabled': {
+                  color: `${colors.text}40`
+                }
+              }}
+            >
+              {handsFree ? <HandsFreeOffIcon /> : <HandsFreeIcon />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Transcribe a WAV, MP3 or M4A file">
+          <span>
+            <IconButton
+              onClick={() => audioFileInputRef.current?.click()}
+              aria-label="Transcribe audio file"
+              disabled={voiceState.isRecording || isTranscribing}
+              sx={{
+                color: colors.primary,
+                '&:hover': {
+                  bgcolor: `${colors.primary}10`
+                },
+                '&.Mui-disabled': {
+                  color: `${colors.text}40`
+                }
+              }}
+            >
+              <AudioFileIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <input
+          ref={audioFileInputRef}
+          type="file"
+          accept={ACCEPTED_AUDIO_FILES}
+          data-testid="audio-file-input"
+          style={{ display: 'none' }}
+          onChange={handleAudioFileSelect}
+        />
+        <Tooltip title={transliterationOn ? 'Switch to plain typing' : 'Type Sanskrit in romanization'}>
+          <IconButton
+            onClick={() => setTransliterationOn(!transliterationOn)}
+            aria-label="Devanagari input"
+            aria-pressed={transliterationOn}
+            sx={{
+              color: transliterationOn ? colors.accent : colors.primary,
+              bgcolor: transliterationOn ? `${colors.accent}15` : 'transparent',
+              '&:hover': {
+                bgcolor: `${colors.primary}10`
+              }
+            }}
+          >
+            <TranslateIcon />
+          </IconButton>
+        </Tooltip>
         <TextField
           fullWidth
           variant="standard"
-          placeholder={isTranscribing ? "Transcribing audio..." : "Type your message..."}
+          placeholder={isTranscribing
+            ? "Transcribing audio..."
+            : transliterationOn
+              ? `Type in ${SCHEME_LABELS[settings.transliterationScheme]}...`
+              : "Type your message..."}
           value={inputText}
-          onChange={(e) => setInputText(e.target.value)}
+          inputRef={inputRef}
+          onChange={(e) => handleInputChange(e.target.value, e.target.selectionStart)}
           onKeyPress={(e) => e.key === 'Enter' && handleSend()}
           disabled={isLoading || isTranscribing}
           InputProps={{
@@ -585,21 +1406,39 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             }
           }}
         />
-        <IconButton
-          onClick={handleSend}
-          disabled={isLoading || isTranscribing || !inputText.trim()}
-          sx={{
-            color: inputText.trim() ? colors.primary : `${colors.text}40`,
-            '&:hover': {
-              bgcolor: `${colors.primary}10`
-            },
-            '&.Mui-disabled': {
-              color: `${colors.text}40`
-            }
-          }}
-        >
-          {isLoading ? <CircularProgress size={24} sx={{ color: colors.primary }} /> : <SendIcon />}
-        </IconButton>
+        {isLoading ? (
+          <Tooltip title="Stop generating">
+            <IconButton
+              onClick={handleStop}
+              aria-label="Stop generating"
+              sx={{
+                color: colors.primary,
+                '&:hover': {
+                  bgcolor: `${colors.primary}10`
+                }
+              }}
+            >
+              <StopIcon />
+            </IconButton>
+          </Tooltip>
+        ) : (
+          <IconButton
+            onClick={handleSend}
+            aria-label="Send message"
+            disabled={isTranscribing || !inputText.trim()}
+            sx={{
+              color: inputText.trim() ? colors.primary : `${colors.text}40`,
+              '&:hover': {
+                bgcolor: `${colors.primary}10`
+              },
+              '&.Mui-disabled': {
+                color: `${colors.text}40`
+              }
+            }}
+          >
+            <SendIcon />
+          </IconButton>
+        )}
       </Box>
 
       {/* Confirmation Dialog */}
@@ -621,11 +1460,11 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             fontFamily: 'serif',
           }}
         >
-          Clear Chat History
+          Clear This Chat
         </DialogTitle>
         <DialogContent sx={{ mt: 2 }}>
           <DialogContentText id="clear-chat-dialog-description">
-            Are you sure you want to clear all chat history? This action cannot be undone.
+            Are you sure you want to clear the messages in this chat? Your other chats are kept. This action cannot be undone.
           </DialogContentText>
         </DialogContent>
         <DialogActions sx={{ px: 3, pb: 2 }}>
@@ -650,7 +1489,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               }
             }}
           >
-            Clear History
+            Clear Chat
           </Button>
         </DialogActions>
       </Dialog>
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   Box,
   List,
@@ -9,6 +9,11 @@ import {
   Button,
   Typography,
   IconButton,
+  InputAdornment,
+  TextField,
+  Menu,
+  MenuItem,
+  ListItemIcon,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
@@ -16,7 +21,18 @@ import {
   Add as AddIcon,
   ChatBubbleOutline as ChatIcon,
   Delete as DeleteIcon,
+  FileDownload as ExportIcon,
+  FileUpload as ImportIcon,
+  Search as SearchIcon,
+  Close as CloseIcon,
+  MoreHoriz as MoreIcon,
+  DriveFileRenameOutline as RenameIcon,
+  PushPin as PinIcon,
+  PushPinOutlined as UnpinIcon,
 } from '@mui/icons-material';
+import ExportMenu from './ExportMenu';
+import { ChatHistoryItem, ExportFormat } from '../types';
+import { groupChatsByDate, searchChats, SearchSnippet } from '../utils/chatSearch';
 
 // Use the same Ayurvedic color palette
 const colors = {
@@ -29,17 +45,15 @@ const colors = {
   sidebarBg: '#F5EFE0', // Lighter version of background
 };
 
-interface ChatHistoryItem {
-  id: string;
-  title: string;
-  timestamp: Date;
-}
-
 interface ChatSidebarProps {
   chatHistory: ChatHistoryItem[];
   onNewChat: () => void;
-  onSelectChat: (id: string) => void;
+  onSelectChat: (id: string, messageId?: string) => void;
   onDeleteChat: (id: string) => void;
+  onRenameChat?: (id: string, title: string) => void;
+  onTogglePinChat?: (id: string) => void;
+  onExportChat?: (id: string, format: ExportFormat) => void;
+  onImportChats?: (file: File) => void;
   activeChatId?: string;
 }
 
@@ -48,10 +62,73 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
   onNewChat,
   onSelectChat,
   onDeleteChat,
+  onRenameChat,
+  onTogglePinChat,
+  onExportChat,
+  onImportChats,
   activeChatId,
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [chatMenu, setChatMenu] = useState<{ anchorEl: HTMLElement; chatId: string } | null>(null);
+  // Kept apart from chatMenu so the menu keeps its items while it fades out
+  const [chatMenuOpen, setChatMenuOpen] = useState(false);
+  const [exportMenu, setExportMenu] = useState<{ anchorEl: HTMLElement; chatId: string } | null>(null);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const cancelRenameRef = useRef(false);
+  // Chat to rename once the options menu has closed and given focus back
+  const renameAfterMenuRef = useRef<ChatHistoryItem | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const isSearching = searchQuery.trim().length > 0;
+  // Pinned chats stay on top; the rest are grouped by when they were last active
+  const chatGroups = useMemo(() => {
+    const pinned = chatHistory.filter(chat => chat.pinned);
+    return [
+      ...(pinned.length > 0 ? [{ label: 'Pinned', chats: pinned }] : []),
+      ...groupChatsByDate(chatHistory.filter(chat => !chat.pinned)),
+    ];
+  }, [chatHistory]);
+  const menuChat = chatHistory.find(chat => chat.id === chatMenu?.chatId);
+  const searchResults = useMemo(() => searchChats(chatHistory, searchQuery), [chatHistory, searchQuery]);
+
+  const renderHighlighted = (text: SearchSnippet | string) => typeof text === 'string' ? text : (
+    <>
+      {text.before}
+      <Box component="mark" sx={{ bgcolor: `${colors.secondary}55`, color: 'inherit', borderRadius: '2px', px: '1px' }}>
+        {text.match}
+      </Box>
+      {text.after}
+    </>
+  );
+
+  const handleStartRename = (chat: ChatHistoryItem) => {
+    setRenamingChatId(chat.id);
+    setRenameText(chat.title);
+  };
+
+  // Enter and Escape both blur the field, so a rename always finishes here exactly once
+  const handleFinishRename = () => {
+    if (!cancelRenameRef.current && renamingChatId && onRenameChat) {
+      const chat = chatHistory.find(item => item.id === renamingChatId);
+      if (renameText.trim() && renameText.trim() !== chat?.title) {
+        onRenameChat(renamingChatId, renameText);
+      }
+    }
+    cancelRenameRef.current = false;
+    setRenamingChatId(null);
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    event.target.value = '';
+    if (file && onImportChats) {
+      onImportChats(file);
+    }
+  };
 
   return (
     <Box sx={{
@@ -83,6 +160,76 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
         >
           New Chat
         </Button>
+        {onImportChats && (
+          <>
+            <Button
+              fullWidth
+              size="small"
+              startIcon={<ImportIcon />}
+              onClick={() => importInputRef.current?.click()}
+              sx={{
+                mt: 1,
+                color: colors.primary,
+                textTransform: 'none',
+                '&:hover': {
+                  bgcolor: `${colors.primary}10`,
+                },
+              }}
+            >
+              Import conversations
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              aria-label="Import conversations file"
+              style={{ display: 'none' }}
+              onChange={handleImportFile}
+            />
+          </>
+        )}
+      </Box>
+
+      {/* Search */}
+      <Box sx={{ px: 2, pb: 2 }}>
+        <TextField
+          fullWidth
+          size="small"
+          placeholder="Search chats"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setSearchQuery('');
+          }}
+          inputProps={{ 'aria-label': 'Search chats' }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" sx={{ color: `${colors.text}99` }} />
+              </InputAdornment>
+            ),
+            endAdornment: isSearching && (
+              <InputAdornment position="end">
+                <IconButton size="small" aria-label="Clear search" onClick={() => setSearchQuery('')}>
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </InputAdornment>
+            ),
+          }}
+          sx={{
+            '& .MuiOutlinedInput-root': {
+              bgcolor: 'white',
+              borderRadius: '8px',
+              fontSize: '0.9rem',
+              '& fieldset': {
+                borderColor: `${colors.border}80`,
+              },
+              '&.Mui-focused fieldset': {
+                borderColor: colors.primary,
+              },
+            },
+          }}
+        />
       </Box>
 
       <Divider sx={{ borderColor: `${colors.border}80` }} />
@@ -99,7 +246,68 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
           borderRadius: '3px',
         },
       }}>
-        {chatHistory.length === 0 ? (
+        {isSearching ? (
+          searchResults.length === 0 ? (
+            <Typography
+              variant="body2"
+              sx={{
+                color: `${colors.text}99`,
+                textAlign: 'center',
+                px: 3,
+                py: 4
+              }}
+            >
+              No chats match "{searchQuery.trim()}"
+            </Typography>
+          ) : (
+            <List sx={{ py: 0 }} aria-label="Search results">
+              {searchResults.map((result) => (
+                <ListItem key={`${result.chatId}-${result.messageId ?? 'title'}`} disablePadding>
+                  <ListItemButton
+                    onClick={() => onSelectChat(result.chatId, result.messageId)}
+                    sx={{
+                      py: 1,
+                      px: 2,
+                      '&:hover': {
+                        bgcolor: `${colors.primary}10`,
+                      }
+                    }}
+                  >
+                    <ListItemText
+                      primary={
+                        <Typography
+                          noWrap
+                          sx={{
+                            color: colors.text,
+                            fontWeight: activeChatId === result.chatId ? 600 : 400,
+                            fontSize: '0.9rem'
+                          }}
+                        >
+                          {renderHighlighted(result.title)}
+                        </Typography>
+                      }
+                      secondary={result.snippet && (
+                        <Typography
+                          variant="caption"
+                          sx={{
+                            color: `${colors.text}CC`,
+                            fontSize: '0.75rem',
+                            display: '-webkit-box',
+                            WebkitLineClamp: 2,
+                            WebkitBoxOrient: 'vertical',
+                            overflow: 'hidden',
+                          }}
+                        >
+                          {renderHighlighted(result.snippet)}
+                        </Typography>
+                      )}
+                    />
+                  </ListItemButton>
+                </ListItem>
+              ))}
+            </List>
+          )
+        ) : chatHistory.length === 0 ? (
           <Box sx={{
             display: 'flex',
             justifyContent: 'center',
@@ -122,87 +330,203 @@ const ChatSidebar: React.FC<ChatSidebarProps> = ({
             </Typography>
           </Box>
         ) : (
-          <List sx={{ py: 0 }}>
-            {chatHistory.map((chat) => (
-              <ListItem
-                key={chat.id}
-                disablePadding
-                secondaryAction={
-                  <IconButton
-                    edge="end"
-                    size="small"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onDeleteChat(chat.id);
-                    }}
-                    sx={{
-                      opacity: 0.6,
-                      '&:hover': {
-                        opacity: 1
-                      }
-                    }}
-                  >
-                    <DeleteIcon fontSize="small" />
-                  </IconButton>
-                }
+          chatGroups.map(({ label, chats }) => (
+            <Box key={label}>
+              <Typography
+                variant="overline"
+                component="div"
                 sx={{
-                  '& .MuiListItemSecondaryAction-root': {
-                    visibility: 'hidden'
-                  },
-                  '&:hover .MuiListItemSecondaryAction-root': {
-                    visibility: 'visible'
-                  }
+                  color: `${colors.text}99`,
+                  px: 2,
+                  pt: 1.5,
+                  lineHeight: 1.5,
+                  fontSize: '0.7rem'
                 }}
               >
-                <ListItemButton
-                  selected={activeChatId === chat.id}
-                  onClick={() => onSelectChat(chat.id)}
-                  sx={{
-                    py: 1.5,
-                    px: 2,
-                    '&.Mui-selected': {
-                      bgcolor: `${colors.primary}15`,
-                      '&:hover': {
-                        bgcolor: `${colors.primary}20`,
-                      }
-                    },
-                    '&:hover': {
-                      bgcolor: `${colors.primary}10`,
-                    }
-                  }}
-                >
-                  <ListItemText
-                    primary={
-                      <Typography
-                        noWrap
-                        sx={{
-                          color: colors.text,
-                          fontWeight: activeChatId === chat.id ? 600 : 400,
-                          fontSize: '0.9rem'
-                        }}
-                      >
-                        {chat.title}
-                      </Typography>
-                    }
-                    secondary={
-                      <Typography
-                        variant="caption"
-                        sx={{
-                          color: `${colors.text}99`,
-                          fontSize: '0.75rem'
-                        }}
-                      >
-                        {new Date(chat.timestamp).toLocaleDateString()}
-                      </Typography>
+                {label}
+              </Typography>
+              <List sx={{ py: 0 }} aria-label={label}>
+                {chats.map((chat) => renamingChatId === chat.id ? (
+                  <ListItem key={chat.id} sx={{ px: 2, py: 1 }}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      variant="standard"
+                      autoFocus
+                      value={renameText}
+                      onChange={(e) => setRenameText(e.target.value)}
+                      onFocus={(e) => e.target.select()}
+                      onBlur={handleFinishRename}
+                      onKeyDown={(e) => {
+                        if (e.key !== 'Enter' && e.key !== 'Escape') return;
+                        cancelRenameRef.current = e.key === 'Escape';
+                        (e.target as HTMLInputElement).blur();
+                      }}
+                      inputProps={{ 'aria-label': 'Chat title', maxLength: 100 }}
+                      sx={{ '& .MuiInput-underline:after': { borderBottomColor: colors.primary } }}
+                    />
+                  </ListItem>
+                ) : (
+                  <ListItem
+                    key={chat.id}
+                    disablePadding
+                    secondaryAction={
+                      <>
+                        <IconButton
+                          size="small"
+                          aria-label={`Options for ${chat.title}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setChatMenu({ anchorEl: e.currentTarget, chatId: chat.id });
+                            setChatMenuOpen(true);
+                          }}
+                          sx={{
+                            opacity: 0.6,
+                            '&:hover': {
+                              opacity: 1
+                            }
+                          }}
+                        >
+                          <MoreIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton
+                          edge="end"
+                          size="small"
+                          aria-label={`Delete ${chat.title}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onDeleteChat(chat.id);
+                          }}
+                          sx={{
+                            opacity: 0.6,
+                            '&:hover': {
+                              opacity: 1
+                            }
+                          }}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </>
                     }
-                  />
-                </ListItemButton>
-              </ListItem>
-            ))}
-          </List>
+                    sx={{
+                      '& .MuiListItemSecondaryAction-root': {
+                        visibility: 'hidden'
+                      },
+                      '&:hover .MuiListItemSecondaryAction-root': {
+                        visibility: 'visible'
+                      }
+                    }}
+                  >
+                    <ListItemButton
+                      selected={activeChatId === chat.id}
+                      onClick={() => onSelectChat(chat.id)}
+                      onDoubleClick={() => onRenameChat && handleStartRename(chat)}
+                      sx={{
+                        py: 1.5,
+                        px: 2,
+                        '&.Mui-selected': {
+                          bgcolor: `${colors.primary}15`,
+                          '&:hover': {
+                            bgcolor: `${colors.primary}20`,
+                          }
+                        },
+                        '&:hover': {
+                          bgcolor: `${colors.primary}10`,
+                        }
+                      }}
+                    >
+                      <ListItemText
+                        primary={
+                          <Typography
+                            noWrap
+                            sx={{
+                              color: colors.text,
+                              fontWeight: activeChatId === chat.id ? 600 : 400,
+                              fontSize: '0.9rem'
+                            }}
+                          >
+                            {chat.title}
+                          </Typography>
+                        }
+                        secondary={
+                          <Typography
+                            variant="caption"
+                            sx={{
+                              color: `${colors.text}99`,
+                              fontSize: '0.75rem'
+                            }}
+                          >
+                            {label === 'Today'
+                              ? new Date(chat.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                              : new Date(chat.timestamp).toLocaleDateString()}
+                          </Typography>
+                        }
+                      />
+                    </ListItemButton>
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          ))
         )}
       </Box>
 
+      <Menu
+        anchorEl={chatMenu?.anchorEl ?? null}
+        open={chatMenuOpen && Boolean(menuChat)}
+        onClose={() => setChatMenuOpen(false)}
+        TransitionProps={{
+          onExited: () => {
+            if (renameAfterMenuRef.current) {
+              handleStartRename(renameAfterMenuRef.current);
+              renameAfterMenuRef.current = null;
+            }
+          },
+        }}
+      >
+        {onRenameChat && menuChat && (
+          <MenuItem
+            onClick={() => {
+              renameAfterMenuRef.current = menuChat;
+              setChatMenuOpen(false);
+            }}
+          >
+            <ListItemIcon><RenameIcon fontSize="small" /></ListItemIcon>
+            Rename
+          </MenuItem>
+        )}
+        {onTogglePinChat && menuChat && (
+          <MenuItem
+            onClick={() => {
+              setChatMenuOpen(false);
+              onTogglePinChat(menuChat.id);
+            }}
+          >
+            <ListItemIcon>
+              {menuChat.pinned ? <UnpinIcon fontSize="small" /> : <PinIcon fontSize="small" />}
+            </ListItemIcon>
+            {menuChat.pinned ? 'Unpin' : 'Pin to top'}
+          </MenuItem>
+        )}
+        {onExportChat && chatMenu && (
+          <MenuItem
+            onClick={() => {
+              setExportMenu(chatMenu);
+              setChatMenuOpen(false);
+            }}
+          >
+            <ListItemIcon><ExportIcon fontSize="small" /></ListItemIcon>
+            Export…
+          </MenuItem>
+        )}
+      </Menu>
+
+      <ExportMenu
+        anchorEl={exportMenu?.anchorEl ?? null}
+        onClose={() => setExportMenu(null)}
+        onExport={(format) => exportMenu && onExportChat?.(exportMenu.chatId, format)}
+      />
+
       {/* Footer */}
       <Box sx={{ p: 2, borderTop: `1px solid ${colors.border}80` }}>
         <Typography
@@ -0,0 +1,107 @@
+import React from 'react';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import DocumentLibrary from './DocumentLibrary';
+import { deleteDocument, getErrorMessage, listDocuments, reindexDocument } from '../services/api';
+import { UploadedDocument } from '../types';
+
+jest.mock('../services/api');
+
+const mockListDocuments = listDocuments as jest.MockedFunction<typeof listDocuments>;
+const mockDeleteDocument = deleteDocument as jest.MockedFunction<typeof deleteDocument>;
+const mockReindexDocument = reindexDocument as jest.MockedFunction<typeof reindexDocument>;
+const mockGetErrorMessage = getErrorMessage as jest.MockedFunction<typeof getErrorMessage>;
+
+const charaka: UploadedDocument = {
+  id: 'doc-1',
+  name: 'charaka-samhita.pdf',
+  sizeBytes: 4718592,
+  pageCount: 312,
+  uploadedAt: new Date(2024, 0, 10),
+  status: 'ready',
+};
+
+const sushruta: UploadedDocument = {
+  id: 'doc-2',
+  name: 'sushruta-samhita.pdf',
+  sizeBytes: 900,
+  pageCount: 1,
+  uploadedAt: new Date(2024, 2, 5),
+  status: 'failed',
+};
+
+const rows = () => within(screen.getByRole('list', { name: 'Uploaded documents' })).getAllByRole('listitem');
+
+describe('DocumentLibrary', () => {
+  beforeEach(() => {
+    mockListDocuments.mockReset();
+    mockDeleteDocument.mockReset();
+    mockReindexDocument.mockReset();
+    mockListDocuments.mockResolvedValue([charaka, sushruta]);
+    mockGetErrorMessage.mockImplementation((error) => (error as Error).message);
+  });
+
+  it('lists documents newest first with size, pages and status', async () => {
+    render(<DocumentLibrary />);
+
+    await waitFor(() => expect(rows()).toHaveLength(2));
+    expect(rows()[0]).toHaveTextContent('sushruta-samhita.pdf');
+    expect(rows()[0]).toHaveTextContent('Index failed');
+    expect(rows()[0]).toHaveTextContent('900 B · 1 page');
+    expect(rows()[1]).toHaveTextContent('4.5 MB · 312 pages');
+  });
+
+  it('deletes a document after confirmation', async () => {
+    mockDeleteDocument.mockResolvedValue();
+    render(<DocumentLibrary />);
+    await waitFor(() => expect(rows()).toHaveLength(2));
+
+    await userEvent.click(screen.getByRole('button', { name: 'Delete charaka-samhita.pdf' }));
+    await userEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(rows()).toHaveLength(1));
+    expect(mockDeleteDocument).toHaveBeenCalledWith('doc-1');
+  });
+
+  it('re-indexes a document and shows the new status', async () => {
+    mockReindexDocument.mockResolvedValue({ ...sushruta, status: 'ready' });
+    render(<DocumentLibrary />);
+    await waitFor(() => expect(rows()).toHaveLength(2));
+
+    await userEvent.click(screen.getByRole('button', { name: 'Re-index sushruta-samhita.pdf' }));
+
+    await waitFor(() => expect(rows()[0]).not.toHaveTextContent('Index failed'));
+    expect(mockReindexDocument).toHaveBeenCalledWith('doc-2');
+  });
+
+  it('keeps the previous status when a re-index request fails', async () => {
+    mockReindexDocument.mockRejectedValue(new Error('The server took too long to respond.'));
+    render(<DocumentLibrary />);
+    await waitFor(() => expect(rows()).toHaveLength(2));
+
+    await userEvent.click(screen.getByRole('button', { name: 'Re-index charaka-samhita.pdf' }));
+
+    expect(await screen.findByText('The server took too long to respond.')).toBeInTheDocument();
+    expect(rows()[1]).not.toHaveTextContent(/Index failed|Indexing/);
+  });
+
+  it('offers a retry when the list fails to load', async () => {
+    mockListDocuments.mockRejectedValueOnce(new Error('Server unavailable'));
+    render(<DocumentLibrary />);
+
+    expect(await screen.findByText('Failed to load documents: Server unavailable')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+    await waitFor(() => expect(rows()).toHaveLength(2));
+  });
+
+  it('opens a document in the viewer', async () => {
+    const onOpenDocument = jest.fn();
+    render(<DocumentLibrary onOpenDocument={onOpenDocument} />);
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Open charaka-samhita.pdf' }));
+
+    expect(onOpenDocument).toHaveBeenCalledWith(charaka);
+  });
+});
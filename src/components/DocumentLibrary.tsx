@@ -0,0 +1,311 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import {
+  PictureAsPdf as PdfIcon,
+  Delete as DeleteIcon,
+  Sync as ReindexIcon,
+  Refresh as RefreshIcon,
+  MenuBook as OpenIcon,
+} from '@mui/icons-material';
+import { UploadedDocument } from '../types';
+import { deleteDocument, getErrorMessage, listDocuments, reindexDocument } from '../services/api';
+import { formatFileSize } from '../utils/format';
+
+// Ayurvedic color palette
+const colors = {
+  primary: '#8B4513', // Sandalwood brown
+  secondary: '#DAA520', // Golden rod
+  accent: '#556B2F', // Olive green
+  text: '#2F4F4F', // Dark slate gray
+  border: '#D2B48C', // Tan
+};
+
+const statusLabels: Record<UploadedDocument['status'], string> = {
+  ready: 'Indexed',
+  indexing: 'Indexing…',
+  failed: 'Index failed',
+};
+
+interface DocumentLibraryProps {
+  refreshKey?: number; // Bump to reload the list, e.g. after an upload
+  onOpenDocument?: (doc: UploadedDocument) => void;
+}
+
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ refreshKey, onOpenDocument }) => {
+  const [documents, setDocuments] = useState<UploadedDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [pendingDelete, setPendingDelete] = useState<UploadedDocument | null>(null);
+
+  const loadDocuments = useCallback(async () => {
+    setIsLoading(true);
+    setLoadError(null);
+
+    try {
+      const loaded = await listDocuments();
+      setDocuments([...loaded].sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime()));
+    } catch (error) {
+      setLoadError(`Failed to load documents: ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [loadDocuments, refreshKey]);
+
+  // Runs an action on one document while its row shows a spinner
+  const runAction = async (documentId: string, action: () => Promise<void>) => {
+    setBusyIds(prev => [...prev, documentId]);
+    setActionError(null);
+
+    try {
+      await action();
+    } catch (error) {
+      setActionError(getErrorMessage(error));
+    } finally {
+      setBusyIds(prev => prev.filter(id => id !== documentId));
+    }
+  };
+
+  const handleReindex = (doc: UploadedDocument) => runAction(doc.id, async () => {
+    setDocuments(prev => prev.map(item => item.id === doc.id ? { ...item, status: 'indexing' } : item));
+    try {
+      // The returned document carries the status the server reports, including a failed index
+      const updated = await reindexDocument(doc.id);
+      setDocuments(prev => prev.map(item => item.id === doc.id ? updated : item));
+    } catch (error) {
+      // The request failed, not the index: keep the previous status and show the error
+      setDocuments(prev => prev.map(item => item.id === doc.id ? { ...item, status: doc.status } : item));
+      throw error;
+    }
+  });
+
+  const handleConfirmDelete = () => {
+    const doc = pendingDelete;
+    setPendingDelete(null);
+    if (!doc) return;
+
+    runAction(doc.id, async () => {
+      await deleteDocument(doc.id);
+      setDocuments(prev => prev.filter(item => item.id !== doc.id));
+    });
+  };
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 3,
+        width: '100%',
+        maxWidth: 600,
+        bgcolor: '#fff',
+        borderRadius: 2,
+        border: `1px solid ${colors.border}`,
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h6" sx={{ color: colors.text, fontFamily: 'serif' }}>
+          Document Library
+        </Typography>
+        <Tooltip title="Refresh">
+          <span>
+            <IconButton
+              aria-label="Refresh documents"
+              onClick={loadDocuments}
+              disabled={isLoading}
+              sx={{ color: colors.primary }}
+            >
+              <RefreshIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+
+      {actionError && (
+        <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 2 }}>
+          {actionError}
+        </Alert>
+      )}
+
+      {isLoading && documents.length === 0 ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={28} sx={{ color: colors.primary }} />
+        </Box>
+      ) : loadError ? (
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={loadDocuments}>
+              Retry
+            </Button>
+          }
+        >
+          {loadError}
+        </Alert>
+      ) : documents.length === 0 ? (
+        <Typography variant="body2" sx={{ color: `${colors.text}99`, textAlign: 'center', py: 3 }}>
+          No documents uploaded yet. Uploaded texts will be listed here.
+        </Typography>
+      ) : (
+        <List disablePadding aria-label="Uploaded documents">
+          {documents.map((doc) => {
+            const isBusy = busyIds.includes(doc.id);
+
+            return (
+              <ListItem
+                key={doc.id}
+                divider
+                sx={{ pr: onOpenDocument ? 16 : 12 }}
+                secondaryAction={
+                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                    {isBusy && <CircularProgress size={18} sx={{ color: colors.primary, mr: 1 }} />}
+                    {onOpenDocument && (
+                      <Tooltip title="Open">
+                        <IconButton
+                          aria-label={`Open ${doc.name}`}
+                          onClick={() => onOpenDocument(doc)}
+                          size="small"
+                        >
+                          <OpenIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                    <Tooltip title="Re-index">
+                      <span>
+                        <IconButton
+                          aria-label={`Re-index ${doc.name}`}
+                          onClick={() => handleReindex(doc)}
+                          disabled={isBusy}
+                          size="small"
+                        >
+                          <ReindexIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <span>
+                        <IconButton
+                          edge="end"
+                          aria-label={`Delete ${doc.name}`}
+                          onClick={() => setPendingDelete(doc)}
+                          disabled={isBusy}
+                          size="small"
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                <ListItemIcon sx={{ minWidth: 40 }}>
+                  <PdfIcon sx={{ color: colors.primary }} />
+                </ListItemIcon>
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography noWrap sx={{ color: colors.text, fontSize: '0.95rem' }}>
+                        {doc.name}
+                      </Typography>
+                      {doc.status !== 'ready' && (
+                        <Chip
+                          size="small"
+                          label={statusLabels[doc.status]}
+                          color={doc.status === 'failed' ? 'error' : 'default'}
+                          variant="outlined"
+                        />
+                      )}
+                    </Box>
+                  }
+                  secondary={[
+                    formatFileSize(doc.sizeBytes),
+                    `${doc.pageCount} ${doc.pageCount === 1 ? 'page' : 'pages'}`,
+                    `Uploaded ${doc.uploadedAt.toLocaleDateString()}`,
+                  ].join(' · ')}
+                  secondaryTypographyProps={{ sx: { color: `${colors.text}99`, fontSize: '0.8rem' } }}
+                />
+              </ListItem>
+            );
+          })}
+        </List>
+      )}
+
+      <Dialog
+        open={Boolean(pendingDelete)}
+        onClose={() => setPendingDelete(null)}
+        aria-labelledby="delete-doc-dialog-title"
+        aria-describedby="delete-doc-dialog-description"
+        PaperProps={{
+          style: {
+            borderRadius: '8px',
+          }
+        }}
+      >
+        <DialogTitle id="delete-doc-dialog-title"
+          sx={{
+            bgcolor: colors.primary,
+            color: 'white',
+            fontFamily: 'serif',
+          }}
+        >
+          Delete Document
+        </DialogTitle>
+        <DialogContent sx={{ mt: 2 }}>
+          <DialogContentText id="delete-doc-dialog-description">
+            Remove "{pendingDelete?.name}" from the library? The assistant will no longer answer from it.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setPendingDelete(null)}
+            sx={{
+              color: colors.text,
+              '&:hover': {
+                bgcolor: `${colors.text}10`
+              }
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirmDelete}
+            variant="contained"
+            sx={{
+              bgcolor: colors.primary,
+              '&:hover': {
+                bgcolor: colors.accent
+              }
+            }}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default DocumentLibrary;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import DocumentViewer, { viewerHash } from './DocumentViewer';
+import { fetchDocumentFile, getErrorMessage } from '../services/api';
+
+jest.mock('../services/api');
+
+const mockFetchDocumentFile = fetchDocumentFile as jest.MockedFunction<typeof fetchDocumentFile>;
+const mockGetErrorMessage = getErrorMessage as jest.MockedFunction<typeof getErrorMessage>;
+
+const location = {
+  documentId: 'doc-1',
+  name: 'charaka-samhita.pdf',
+  page: 42,
+  highlight: 'vāta, pitta and kapha are, in brief, the three doṣas',
+};
+
+describe('DocumentViewer', () => {
+  beforeEach(() => {
+    mockFetchDocumentFile.mockReset();
+    mockGetErrorMessage.mockImplementation((error) => (error as Error).message);
+    // jsdom has no object URLs
+    URL.createObjectURL = jest.fn(() => 'blob:doc-1');
+    URL.revokeObjectURL = jest.fn();
+  });
+
+  it('opens the document at the cited page with the passage highlighted', async () => {
+    mockFetchDocumentFile.mockResolvedValue(new Blob(['%PDF'], { type: 'application/pdf' }));
+    render(<DocumentViewer location={location} onClose={jest.fn()} />);
+
+    const frame = await screen.findByTitle('charaka-samhita.pdf, page 42');
+
+    expect(frame).toHaveAttribute(
+      'src',
+      'blob:doc-1#page=42&search=v%C4%81ta%2C%20pitta%20and%20kapha%20are%2C%20in',
+    );
+    expect(mockFetchDocumentFile).toHaveBeenCalledWith('doc-1', expect.any(AbortSignal));
+
+    const passage = screen.getByRole('note', { name: 'Cited passage' });
+    expect(within(passage).getByText(location.highlight, { selector: 'mark' })).toBeInTheDocument();
+  });
+
+  it('points the built-in viewer at the page and the opening words', () => {
+    expect(viewerHash({ page: 42, highlight: 'one two  three four five six seven' }))
+      .toBe('#page=42&search=one%20two%20three%20four%20five%20six');
+    expect(viewerHash({})).toBe('#page=1');
+  });
+
+  it('shows an error with a retry when the file cannot be loaded', async () => {
+    mockFetchDocumentFile
+      .mockRejectedValueOnce(new Error('Document not found'))
+      .mockResolvedValueOnce(new Blob(['%PDF'], { type: 'application/pdf' }));
+    render(<DocumentViewer location={location} onClose={jest.fn()} />);
+
+    expect(await screen.findByText('Failed to open document: Document not found')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+    expect(await screen.findByTitle('charaka-samhita.pdf, page 42')).toBeInTheDocument();
+  });
+
+  it('releases the file when closed', async () => {
+    mockFetchDocumentFile.mockResolvedValue(new Blob(['%PDF'], { type: 'application/pdf' }));
+    const onClose = jest.fn();
+    const { unmount } = render(<DocumentViewer location={location} onClose={onClose} />);
+    await screen.findByTitle('charaka-samhita.pdf, page 42');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Close document viewer' }));
+    expect(onClose).toHaveBeenCalled();
+
+    unmount();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:doc-1');
+  });
+});
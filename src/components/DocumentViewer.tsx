@@ -0,0 +1,216 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  IconButton,
+  Tooltip,
+  CircularProgress,
+  Alert,
+  Button,
+  Paper,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  OpenInNew as OpenInNewIcon,
+  FormatQuote as QuoteIcon,
+} from '@mui/icons-material';
+import { DocumentLocation } from '../types';
+import { fetchDocumentFile, getErrorMessage } from '../services/api';
+
+// Ayurvedic color palette
+const colors = {
+  primary: '#8B4513', // Sandalwood brown
+  secondary: '#DAA520', // Golden rod
+  background: '#FDF5E6', // Old lace
+  text: '#2F4F4F', // Dark slate gray
+  border: '#D2B48C', // Tan
+};
+
+// Browser viewers match a search phrase on one line at best, so only the opening words are used
+const SEARCH_WORDS = 6;
+
+// Open parameters understood by the built-in PDF viewers: `page` everywhere, `search` in Firefox
+export const viewerHash = ({ page, highlight }: Pick<DocumentLocation, 'page' | 'highlight'>) => {
+  const params = [`page=${page ?? 1}`];
+  const phrase = highlight?.split(/\s+/).filter(Boolean).slice(0, SEARCH_WORDS).join(' ');
+  if (phrase) params.push(`search=${encodeURIComponent(phrase)}`);
+  return `#${params.join('&')}`;
+};
+
+interface DocumentViewerProps {
+  location: DocumentLocation;
+  onClose: () => void;
+}
+
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ location, onClose }) => {
+  const { documentId, name, page, highlight } = location;
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showPassage, setShowPassage] = useState(true);
+  const [loadCount, setLoadCount] = useState(0);
+
+  // A new citation brings its passage back even if the last one was dismissed
+  useEffect(() => {
+    setShowPassage(true);
+  }, [documentId, page, highlight]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let url: string | null = null;
+    setFileUrl(null);
+    setError(null);
+
+    fetchDocumentFile(documentId, controller.signal)
+      .then((blob) => {
+        url = URL.createObjectURL(blob);
+        setFileUrl(url);
+      })
+      .catch((loadError) => {
+        if (!controller.signal.aborted) {
+          setError(`Failed to open document: ${getErrorMessage(loadError)}`);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [documentId, loadCount]);
+
+  const handleRetry = useCallback(() => setLoadCount(prev => prev + 1), []);
+
+  const pageUrl = fileUrl ? `${fileUrl}${viewerHash({ page, highlight })}` : null;
+
+  return (
+    <Box
+      component="section"
+      aria-label="Document viewer"
+      sx={{
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        bgcolor: colors.background,
+        overflow: 'hidden',
+      }}
+    >
+      {/* Title bar */}
+      <Box sx={{
+        py: 1.5,
+        px: 2,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1,
+        borderBottom: `1px solid ${colors.border}`,
+        bgcolor: colors.primary,
+        color: '#fff',
+      }}>
+        <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+          <Typography noWrap sx={{ fontFamily: 'serif', fontSize: '1.1rem' }}>
+            {name}
+          </Typography>
+          {page && (
+            <Typography variant="caption" sx={{ opacity: 0.9, fontStyle: 'italic' }}>
+              Page {page}
+            </Typography>
+          )}
+        </Box>
+        <Tooltip title="Open in new tab">
+          <span>
+            <IconButton
+              component="a"
+              href={pageUrl ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              aria-label="Open in new tab"
+              disabled={!pageUrl}
+              sx={{ color: 'inherit', '&.Mui-disabled': { color: 'inherit', opacity: 0.5 } }}
+            >
+              <OpenInNewIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <IconButton onClick={onClose} aria-label="Close document viewer" sx={{ color: 'inherit' }}>
+          <CloseIcon />
+        </IconButton>
+      </Box>
+
+      {/* The cited passage, so it can be found on the page even where the viewer can't search */}
+      {highlight && showPassage && (
+        <Paper
+          elevation={0}
+          role="note"
+          aria-label="Cited passage"
+          sx={{
+            m: 1.5,
+            mb: 0,
+            p: 1.5,
+            display: 'flex',
+            gap: 1,
+            alignItems: 'flex-start',
+            border: `1px solid ${colors.border}`,
+            borderLeft: `4px solid ${colors.secondary}`,
+            borderRadius: 1,
+          }}
+        >
+          <QuoteIcon sx={{ color: colors.primary, fontSize: '1.2rem', mt: 0.25 }} />
+          <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+            <Typography variant="caption" sx={{ display: 'block', color: `${colors.text}99` }}>
+              Cited passage{page ? ` · page ${page}` : ''}
+            </Typography>
+            <Typography
+              variant="body2"
+              sx={{
+                fontFamily: 'serif',
+                color: colors.text,
+                maxHeight: '6.5em',
+                overflow: 'auto',
+                '& mark': { bgcolor: `${colors.secondary}55`, color: 'inherit', px: 0.25 },
+              }}
+            >
+              <mark>{highlight}</mark>
+            </Typography>
+          </Box>
+          <IconButton size="small" aria-label="Hide cited passage" onClick={() => setShowPassage(false)}>
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Paper>
+      )}
+
+      <Box sx={{ flexGrow: 1, position: 'relative', m: 1.5 }}>
+        {error ? (
+          <Alert
+            severity="error"
+            action={
+              <Button color="inherit" size="small" onClick={handleRetry}>
+                Retry
+              </Button>
+            }
+          >
+            {error}
+          </Alert>
+        ) : pageUrl ? (
+          <Box
+            component="iframe"
+            // Remount on a new page so the viewer jumps there; hash changes alone are often ignored
+            key={pageUrl}
+            src={pageUrl}
+            title={`${name}${page ? `, page ${page}` : ''}`}
+            sx={{
+              width: '100%',
+              height: '100%',
+              border: `1px solid ${colors.border}`,
+              borderRadius: 1,
+              bgcolor: '#fff',
+            }}
+          />
+        ) : (
+          <Box sx={{ display: 'flex', justifyContent: 'center', pt: 6 }}>
+            <CircularProgress size={32} sx={{ color: colors.primary }} aria-label="Loading document" />
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default DocumentViewer;
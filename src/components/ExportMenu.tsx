@@ -0,0 +1,44 @@
+import React from 'react';
+import {
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+} from '@mui/material';
+import {
+  Description as MarkdownIcon,
+  DataObject as JsonIcon,
+  PictureAsPdf as PdfIcon,
+} from '@mui/icons-material';
+import { ExportFormat } from '../types';
+
+interface ExportMenuProps {
+  anchorEl: HTMLElement | null;
+  onClose: () => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+const exportOptions: { format: ExportFormat; label: string; icon: React.ReactNode }[] = [
+  { format: 'markdown', label: 'Markdown', icon: <MarkdownIcon fontSize="small" /> },
+  { format: 'json', label: 'JSON (re-importable)', icon: <JsonIcon fontSize="small" /> },
+  { format: 'pdf', label: 'Print / Save as PDF', icon: <PdfIcon fontSize="small" /> },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ anchorEl, onClose, onExport }) => (
+  <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={onClose}>
+    {exportOptions.map(({ format, label, icon }) => (
+      <MenuItem
+        key={format}
+        onClick={() => {
+          onClose();
+          onExport(format);
+        }}
+      >
+        <ListItemIcon>{icon}</ListItemIcon>
+        <ListItemText>{label}</ListItemText>
+      </MenuItem>
+    ))}
+  </Menu>
+);
+
+export default ExportMenu;
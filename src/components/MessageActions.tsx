@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  IconButton,
+  Menu,
+  MenuItem,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  ContentCopy as CopyIcon,
+  Refresh as RefreshIcon,
+  Edit as EditIcon,
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+  VolumeUp as SpeakIcon,
+  StopCircleOutlined as StopSpeakingIcon,
+} from '@mui/icons-material';
+
+// Ayurvedic color palette
+const colors = {
+  primary: '#8B4513', // Sandalwood brown
+  text: '#2F4F4F', // Dark slate gray
+};
+
+export type CopyFormat = 'markdown' | 'plain';
+
+interface MessageActionsProps {
+  align: 'flex-start' | 'flex-end';
+  disabled?: boolean;
+  versionCount: number;
+  versionIndex: number;
+  onSwitchVersion: (versionIndex: number) => void;
+  onCopy?: (format: CopyFormat) => Promise<void>;
+  onRegenerate?: () => void;
+  onEdit?: () => void;
+  onSpeak?: () => void; // Starts reading the message aloud, or stops it while speaking
+  isSpeaking?: boolean;
+}
+
+const MessageActions: React.FC<MessageActionsProps> = ({
+  align,
+  disabled,
+  versionCount,
+  versionIndex,
+  onSwitchVersion,
+  onCopy,
+  onRegenerate,
+  onEdit,
+  onSpeak,
+  isSpeaking,
+}) => {
+  const [copyMenuAnchor, setCopyMenuAnchor] = useState<HTMLElement | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async (format: CopyFormat) => {
+    setCopyMenuAnchor(null);
+    if (!onCopy) return;
+
+    try {
+      await onCopy(format);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Error copying message:', error);
+    }
+  };
+
+  const buttonSx = {
+    color: `${colors.text}99`,
+    '&:hover': {
+      color: colors.primary,
+      bgcolor: `${colors.primary}10`
+    }
+  };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: align,
+      gap: 0.25,
+      mt: 0.5,
+    }}>
+      {versionCount > 1 && (
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          <IconButton
+            size="small"
+            aria-label="Previous version"
+            disabled={disabled || versionIndex === 0}
+            onClick={() => onSwitchVersion(versionIndex - 1)}
+            sx={buttonSx}
+          >
+            <ChevronLeftIcon fontSize="small" />
+          </IconButton>
+          <Typography variant="caption" sx={{ color: `${colors.text}99`, minWidth: '2.5em', textAlign: 'center' }}>
+            {versionIndex + 1} / {versionCount}
+          </Typography>
+          <IconButton
+            size="small"
+            aria-label="Next version"
+            disabled={disabled || versionIndex === versionCount - 1}
+            onClick={() => onSwitchVersion(versionIndex + 1)}
+            sx={buttonSx}
+          >
+            <ChevronRightIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      )}
+      {onCopy && (
+        <>
+          <Tooltip title={copied ? 'Copied!' : 'Copy'}>
+            <IconButton
+              size="small"
+              aria-label="Copy message"
+              onClick={(e) => setCopyMenuAnchor(e.currentTarget)}
+              sx={buttonSx}
+            >
+              <CopyIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Menu
+            anchorEl={copyMenuAnchor}
+            open={Boolean(copyMenuAnchor)}
+            onClose={() => setCopyMenuAnchor(null)}
+          >
+            <MenuItem onClick={() => handleCopy('markdown')}>Copy as Markdown</MenuItem>
+            <MenuItem onClick={() => handleCopy('plain')}>Copy as plain text</MenuItem>
+          </Menu>
+        </>
+      )}
+      {onSpeak && (
+        <Tooltip title={isSpeaking ? 'Stop reading' : 'Read aloud'}>
+          <IconButton
+            size="small"
+            aria-label={isSpeaking ? 'Stop reading' : 'Read aloud'}
+            onClick={onSpeak}
+            sx={isSpeaking ? { ...buttonSx, color: colors.primary } : buttonSx}
+          >
+            {isSpeaking ? <StopSpeakingIcon fontSize="small" /> : <SpeakIcon fontSize="small" />}
+          </IconButton>
+        </Tooltip>
+      )}
+      {onRegenerate && (
+        <Tooltip title="Regenerate">
+          <span>
+            <IconButton
+              size="small"
+              aria-label="Regenerate response"
+              disabled={disabled}
+              onClick={onRegenerate}
+              sx={buttonSx}
+            >
+              <RefreshIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      )}
+      {onEdit && (
+        <Tooltip title="Edit and resend">
+          <span>
+            <IconButton
+              size="small"
+              aria-label="Edit message"
+              disabled={disabled}
+              onClick={onEdit}
+              sx={buttonSx}
+            >
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+      )}
+    </Box>
+  );
+};
+
+export default MessageActions;
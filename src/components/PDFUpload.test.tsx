@@ -0,0 +1,140 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import PDFUpload from './PDFUpload';
+import { useUploadQueue } from '../hooks/useUploadQueue';
+import { ApiError, getErrorMessage, listDocuments, uploadPDF } from '../services/api';
+
+jest.mock('../services/api', () => ({
+  ...jest.requireActual('../services/api'),
+  uploadPDF: jest.fn(),
+  listDocuments: jest.fn(),
+  getErrorMessage: jest.fn(),
+}));
+
+const mockUploadPDF = uploadPDF as jest.MockedFunction<typeof uploadPDF>;
+const mockGetErrorMessage = getErrorMessage as jest.MockedFunction<typeof getErrorMessage>;
+const mockListDocuments = listDocuments as jest.MockedFunction<typeof listDocuments>;
+
+const selectFiles = (...files: File[]) => {
+  fireEvent.change(screen.getByLabelText('Select PDF Files'), {
+    target: { files },
+  });
+};
+
+// The app owns the queue; the panel can be closed and reopened while it runs
+const UploadPanel: React.FC = () => {
+  const uploads = useUploadQueue();
+  const [open, setOpen] = React.useState(true);
+  return open
+    ? <PDFUpload onToggleUpload={() => setOpen(false)} uploads={uploads} />
+    : <button onClick={() => setOpen(true)}>Upload</button>;
+};
+
+const pdf = new File(['%PDF-1.4'], 'charaka-samhita.pdf', { type: 'application/pdf' });
+
+describe('PDFUpload', () => {
+  beforeEach(() => {
+    mockUploadPDF.mockReset();
+    mockListDocuments.mockReset();
+    mockListDocuments.mockResolvedValue([]);
+    mockGetErrorMessage.mockImplementation((error) => (error as Error).message);
+  });
+
+  it('rejects files that are not PDFs without uploading them', async () => {
+    render(<UploadPanel />);
+    expect(await screen.findByText(/No documents uploaded yet/)).toBeInTheDocument();
+
+    selectFiles(new File(['hello'], 'notes.txt', { type: 'text/plain' }));
+
+    expect(screen.getByText('Only PDF files can be uploaded.')).toBeInTheDocument();
+    expect(mockUploadPDF).not.toHaveBeenCalled();
+  });
+
+  it('uploads dropped files and shows the server message', async () => {
+    mockUploadPDF.mockResolvedValue('Indexed 120 pages');
+    render(<UploadPanel />);
+
+    fireEvent.drop(screen.getByTestId('pdf-drop-zone'), { dataTransfer: { files: [pdf] } });
+
+    expect(await screen.findByText('Indexed 120 pages')).toBeInTheDocument();
+    expect(mockUploadPDF).toHaveBeenCalledWith(pdf, expect.objectContaining({ signal: expect.any(AbortSignal) }));
+    // The library reloads so the new document shows up
+    expect(mockListDocuments).toHaveBeenCalledTimes(2);
+  });
+
+  it('shows byte progress and cancels an upload in flight', async () => {
+    let signal: AbortSignal | undefined;
+    mockUploadPDF.mockImplementation((file, options = {}) => {
+      signal = options.signal;
+      options.onProgress?.(4, 8);
+      return new Promise(() => {});
+    });
+    render(<UploadPanel />);
+
+    selectFiles(pdf);
+
+    expect(await screen.findByText('4 B of 8 B · 50%')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel charaka-samhita.pdf' }));
+
+    expect(signal?.aborted).toBe(true);
+    expect(screen.getByText('8 B · Cancelled')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Retry charaka-samhita.pdf' })).toBeInTheDocument();
+  });
+
+  it('keeps uploading while the panel is closed', async () => {
+    let signal: AbortSignal | undefined;
+    let finish: (message: string) => void = () => {};
+    mockUploadPDF.mockImplementation((file, options = {}) => {
+      signal = options.signal;
+      return new Promise(resolve => {
+        finish = resolve;
+      });
+    });
+    render(<UploadPanel />);
+
+    selectFiles(pdf);
+    expect(await screen.findByLabelText('charaka-samhita.pdf upload progress')).toBeInTheDocument();
+    fireEvent.click(screen.getAllByRole('button', { name: 'Back to Chat' })[0]);
+
+    expect(signal?.aborted).toBe(false);
+    await act(async () => finish('Indexed 120 pages'));
+    fireEvent.click(screen.getByRole('button', { name: 'Upload' }));
+
+    expect(await screen.findByText('Indexed 120 pages')).toBeInTheDocument();
+  });
+
+  it('retries a file automatically after a network error', async () => {
+    jest.useFakeTimers();
+    try {
+      mockUploadPDF
+        .mockRejectedValueOnce(new ApiError('Network error', { status: 0, code: 'network_error', retryable: true }))
+        .mockResolvedValueOnce('Indexed 120 pages');
+      render(<UploadPanel />);
+
+      selectFiles(pdf);
+
+      expect(await screen.findByText(/Retrying \(attempt 2 of 3\)/)).toBeInTheDocument();
+
+      await act(async () => {
+        jest.advanceTimersByTime(2000);
+      });
+
+      expect(await screen.findByText('Indexed 120 pages')).toBeInTheDocument();
+      expect(mockUploadPDF).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('shows an error when the upload fails', async () => {
+    mockUploadPDF.mockRejectedValue(new Error('boom'));
+    mockGetErrorMessage.mockReturnValue('File too large');
+    render(<UploadPanel />);
+
+    selectFiles(pdf);
+
+    expect(await screen.findByText('Failed to upload PDF: File too large')).toBeInTheDocument();
+    expect(mockUploadPDF).toHaveBeenCalledTimes(1);
+  });
+});
@@ -4,17 +4,29 @@ import {
   Typography,
   Button,
   Paper,
-  CircularProgress,
-  Alert,
   IconButton,
   Tooltip,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
 } from '@mui/material';
 import {
   Upload as UploadIcon,
   Close as CloseIcon,
-  ArrowBack as ArrowBackIcon
+  ArrowBack as ArrowBackIcon,
+  PictureAsPdf as PdfIcon,
+  Replay as RetryIcon,
+  CheckCircle as DoneIcon,
+  ErrorOutline as ErrorIcon,
+  DeleteOutline as RemoveIcon,
 } from '@mui/icons-material';
-import { uploadPDF } from '../services/api';
+import { UploadedDocument } from '../types';
+import { formatFileSize } from '../utils/format';
+import { isFinished, MAX_UPLOAD_ATTEMPTS, MAX_UPLOAD_BYTES, UploadQueueItem } from '../utils/uploadQueue';
+import { UploadQueue } from '../hooks/useUploadQueue';
+import DocumentLibrary from './DocumentLibrary';
 
 // Ayurvedic color palette
 const colors = {
@@ -28,53 +40,42 @@ const colors = {
 
 interface PDFUploadProps {
   onToggleUpload: () => void;
+  onOpenDocument?: (doc: UploadedDocument) => void;
+  uploads: UploadQueue; // Owned by the app so uploads survive closing this panel
 }
 
-const PDFUpload: React.FC<PDFUploadProps> = ({ onToggleUpload }) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadStatus, setUploadStatus] = useState<{
-    type: 'success' | 'error';
-    message: string;
-  } | null>(null);
-
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
-      setSelectedFile(file);
-      setUploadStatus(null);
-    } else {
-      setUploadStatus({
-        type: 'error',
-        message: 'Please select a valid PDF file.',
-      });
+const describeItem = (item: UploadQueueItem): string => {
+  const size = formatFileSize(item.file.size);
+  switch (item.status) {
+    case 'queued':
+      return `${size} · Waiting…`;
+    case 'uploading': {
+      const percent = Math.round((item.loadedBytes / item.file.size) * 100);
+      return `${formatFileSize(item.loadedBytes)} of ${size} · ${percent}%`;
     }
-  };
+    case 'retrying':
+      return `${item.message} Retrying (attempt ${item.attempts + 1} of ${MAX_UPLOAD_ATTEMPTS})…`;
+    case 'cancelled':
+      return `${size} · Cancelled`;
+    default:
+      return item.message ?? size;
+  }
+};
 
-  const handleUpload = async () => {
-    if (!selectedFile) return;
+const PDFUpload: React.FC<PDFUploadProps> = ({ onToggleUpload, onOpenDocument, uploads }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const { queue, libraryVersion, addFiles } = uploads;
 
-    setIsUploading(true);
-    setUploadStatus(null);
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    // Reset so the same files can be picked again
+    event.target.value = '';
+  };
 
-    try {
-      const message = await uploadPDF(selectedFile);
-      setUploadStatus({
-        type: 'success',
-        message,
-      });
-      setSelectedFile(null);
-      // Reset file input
-      const fileInput = document.getElementById('pdf-upload') as HTMLInputElement;
-      if (fileInput) fileInput.value = '';
-    } catch (error) {
-      setUploadStatus({
-        type: 'error',
-        message: 'Failed to upload PDF. Please try again.',
-      });
-    } finally {
-      setIsUploading(false);
-    }
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
   };
 
   return (
@@ -126,7 +127,7 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onToggleUpload }) => {
         display: 'flex',
         flexDirection: 'column',
         alignItems: 'center',
-        justifyContent: 'center',
+        gap: 3,
         p: 4,
         overflow: 'auto',
       }}>
@@ -153,16 +154,39 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onToggleUpload }) => {
             Upload Sanskrit PDF Documents
           </Typography>
 
-          <Box sx={{
-            width: '100%',
-            display: 'flex',
-            flexDirection: 'column',
-            gap: 2,
-          }}>
+          <Box
+            data-testid="pdf-drop-zone"
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            sx={{
+              width: '100%',
+              p: 3,
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              gap: 1.5,
+              borderRadius: 2,
+              border: `2px dashed ${isDragging ? colors.primary : colors.border}`,
+              bgcolor: isDragging ? `${colors.primary}10` : 'transparent',
+              transition: 'all 0.2s ease',
+            }}
+          >
+            <UploadIcon sx={{ fontSize: '2.5rem', color: isDragging ? colors.primary : colors.border }} />
+            <Typography sx={{ color: colors.text, textAlign: 'center' }}>
+              Drag and drop PDF files here
+            </Typography>
+            <Typography variant="caption" sx={{ color: `${colors.text}99` }}>
+              or
+            </Typography>
             <input
               type="file"
               id="pdf-upload"
-              accept=".pdf"
+              accept=".pdf,application/pdf"
+              multiple
               style={{ display: 'none' }}
               onChange={handleFileSelect}
             />
@@ -170,68 +194,113 @@ const PDFUpload: React.FC<PDFUploadProps> = ({ onToggleUpload }) => {
               <Button
                 component="span"
                 variant="outlined"
-                startIcon={<UploadIcon />}
-                fullWidth
                 sx={{
-                  py: 2,
-                  border: `1px dashed ${colors.border}`,
+                  border: `1px solid ${colors.border}`,
                   color: colors.text,
                   '&:hover': {
-                    border: `1px dashed ${colors.primary}`,
+                    border: `1px solid ${colors.primary}`,
                     bgcolor: `${colors.primary}10`,
                   },
                 }}
               >
-                Select PDF File
+                Select PDF Files
               </Button>
             </label>
-
-            {selectedFile && (
-              <Typography sx={{
-                color: colors.text,
-                textAlign: 'center',
-              }}>
-                Selected: {selectedFile.name}
-              </Typography>
-            )}
-
-            <Button
-              onClick={handleUpload}
-              disabled={!selectedFile || isUploading}
-              variant="contained"
-              sx={{
-                bgcolor: colors.primary,
-                color: '#fff',
-                '&:hover': {
-                  bgcolor: colors.secondary,
-                },
-                '&.Mui-disabled': {
-                  bgcolor: `${colors.text}40`,
-                },
-              }}
-            >
-              {isUploading ? (
-                <CircularProgress size={24} sx={{ color: '#fff' }} />
-              ) : (
-                'Upload Document'
-              )}
-            </Button>
+            <Typography variant="caption" sx={{ color: `${colors.text}99` }}>
+              PDF only, up to {formatFileSize(MAX_UPLOAD_BYTES)} each
+            </Typography>
           </Box>
 
-          {uploadStatus && (
-            <Alert
-              severity={uploadStatus.type}
-              sx={{
-                width: '100%',
-                '& .MuiAlert-message': {
-                  width: '100%',
-                },
-              }}
-            >
-              {uploadStatus.message}
-            </Alert>
+          {queue.length > 0 && (
+            <Box sx={{ width: '100%' }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="subtitle2" sx={{ color: colors.text }}>
+                  {queue.filter(item => item.status === 'done').length} of {queue.filter(item => item.status !== 'invalid').length} uploaded
+                </Typography>
+                {queue.some(isFinished) && (
+                  <Button size="small" onClick={uploads.clearFinished} sx={{ color: colors.primary, textTransform: 'none' }}>
+                    Clear finished
+                  </Button>
+                )}
+              </Box>
+              <List disablePadding aria-label="Upload queue">
+                {queue.map((item) => {
+                  const isActive = ['queued', 'uploading', 'retrying'].includes(item.status);
+                  const isError = item.status === 'failed' || item.status === 'invalid';
+
+                  return (
+                    <ListItem
+                      key={item.id}
+                      divider
+                      sx={{ pr: 10 }}
+                      secondaryAction={
+                        <Box sx={{ display: 'flex' }}>
+                          {(item.status === 'failed' || item.status === 'cancelled') && (
+                            <Tooltip title="Retry">
+                              <IconButton size="small" aria-label={`Retry ${item.file.name}`} onClick={() => uploads.retry(item.id)}>
+                                <RetryIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                          {isActive ? (
+                            <Tooltip title="Cancel">
+                              <IconButton size="small" edge="end" aria-label={`Cancel ${item.file.name}`} onClick={() => uploads.cancel(item.id)}>
+                                <CloseIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          ) : (
+                            <Tooltip title="Remove">
+                              <IconButton size="small" edge="end" aria-label={`Remove ${item.file.name}`} onClick={() => uploads.remove(item.id)}>
+                                <RemoveIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          )}
+                        </Box>
+                      }
+                    >
+                      <ListItemIcon sx={{ minWidth: 36 }}>
+                        {item.status === 'done' ? (
+                          <DoneIcon sx={{ color: colors.accent }} />
+                        ) : isError ? (
+                          <ErrorIcon color="error" />
+                        ) : (
+                          <PdfIcon sx={{ color: colors.primary }} />
+                        )}
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={item.file.name}
+                        primaryTypographyProps={{ noWrap: true, sx: { color: colors.text, fontSize: '0.9rem' } }}
+                        secondary={
+                          <>
+                            {describeItem(item)}
+                            {(item.status === 'uploading' || item.status === 'queued') && (
+                              <LinearProgress
+                                variant={item.status === 'uploading' ? 'determinate' : 'indeterminate'}
+                                value={(item.loadedBytes / item.file.size) * 100}
+                                aria-label={`${item.file.name} upload progress`}
+                                sx={{
+                                  mt: 0.5,
+                                  bgcolor: `${colors.border}60`,
+                                  '& .MuiLinearProgress-bar': { bgcolor: colors.primary },
+                                }}
+                              />
+                            )}
+                          </>
+                        }
+                        secondaryTypographyProps={{
+                          component: 'div',
+                          sx: { color: isError ? 'error.main' : `${colors.text}99`, fontSize: '0.8rem' },
+                        }}
+                      />
+                    </ListItem>
+                  );
+                })}
+              </List>
+            </Box>
           )}
         </Paper>
+
+        <DocumentLibrary refreshKey={libraryVersion} onOpenDocument={onOpenDocument} />
       </Box>
 
       {/* Bottom action bar */}
@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Typography, LinearProgress } from '@mui/material';
+import { FiberManualRecord as RecordIcon } from '@mui/icons-material';
+
+// Ayurvedic color palette
+const colors = {
+  primary: '#8B4513', // Sandalwood brown
+  accent: '#556B2F', // Olive green
+  text: '#2F4F4F', // Dark slate gray
+  border: '#D2B48C', // Tan
+};
+
+const TICK_MS = 250;
+// The last stretch before auto-stop is flagged so it doesn't cut anyone off by surprise
+const WARNING_MS = 10000;
+
+export type SamplesListener = (samples: Float32Array) => void;
+
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const drawWaveform = (canvas: HTMLCanvasElement, samples: Float32Array) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { width, height } = canvas;
+  context.clearRect(0, 0, width, height);
+  context.strokeStyle = colors.accent;
+  context.lineWidth = 2;
+  context.beginPath();
+
+  const step = samples.length / width;
+  for (let x = 0; x < width; x++) {
+    // Scaled up so normal speech fills most of the height
+    const y = height / 2 + Math.max(-1, Math.min(1, samples[Math.floor(x * step)] * 3)) * (height / 2);
+    if (x === 0) {
+      context.moveTo(x, y);
+    } else {
+      context.lineTo(x, y);
+    }
+  }
+  context.stroke();
+};
+
+interface RecordingIndicatorProps {
+  startedAt: number;
+  maxDurationMs: number;
+  subscribe: (listener: SamplesListener) => () => void; // Live microphone samples while recording
+}
+
+const RecordingIndicator: React.FC<RecordingIndicatorProps> = ({ startedAt, maxDurationMs, subscribe }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Draw straight to the canvas; re-rendering for every frame would be wasteful
+  useEffect(() => subscribe((samples) => {
+    if (canvasRef.current) drawWaveform(canvasRef.current, samples);
+  }), [subscribe]);
+
+  const elapsedMs = Math.min(maxDurationMs, Math.max(0, now - startedAt));
+  const nearLimit = maxDurationMs - elapsedMs <= WARNING_MS;
+
+  return (
+    <Box sx={{
+      py: 1,
+      px: 3,
+      borderTop: `1px solid ${colors.border}`,
+      bgcolor: '#fff',
+      display: 'flex',
+      alignItems: 'center',
+      gap: 2,
+    }}>
+      <RecordIcon
+        fontSize="small"
+        sx={{
+          color: '#c62828',
+          animation: 'recording-pulse 1.2s ease-in-out infinite',
+          '@keyframes recording-pulse': { '50%': { opacity: 0.3 } },
+        }}
+      />
+      <Box
+        component="canvas"
+        ref={canvasRef}
+        width={240}
+        height={32}
+        role="img"
+        aria-label="Microphone input level"
+        sx={{ flexGrow: 1, minWidth: 0, height: 32, bgcolor: `${colors.accent}08`, borderRadius: 1 }}
+      />
+      <Box sx={{ minWidth: 96, textAlign: 'right' }}>
+        <Typography
+          variant="body2"
+          aria-label="Recording time"
+          sx={{ color: nearLimit ? 'error.main' : colors.text, fontVariantNumeric: 'tabular-nums' }}
+        >
+          {formatDuration(elapsedMs)} / {formatDuration(maxDurationMs)}
+        </Typography>
+        <LinearProgress
+          variant="determinate"
+          value={(elapsedMs / maxDurationMs) * 100}
+          aria-hidden
+          sx={{
+            mt: 0.5,
+            height: 3,
+            bgcolor: `${colors.border}60`,
+            '& .MuiLinearProgress-bar': { bgcolor: nearLimit ? 'error.main' : colors.primary },
+          }}
+        />
+      </Box>
+    </Box>
+  );
+};
+
+export default RecordingIndicator;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import SettingsPanel from './SettingsPanel';
+import { ChatSettings, ModelCatalog } from '../types';
+import { FALLBACK_MODEL_CATALOG } from '../utils/models';
+import { listMicrophones } from '../utils/microphone';
+
+jest.mock('../utils/microphone', () => ({
+  ...jest.requireActual('../utils/microphone'),
+  listMicrophones: jest.fn(),
+}));
+
+const mockListMicrophones = listMicrophones as jest.MockedFunction<typeof listMicrophones>;
+
+const settings: ChatSettings = {
+  llmModel: 'llama-3.1-8b-instant',
+  asrModel: 'conformer',
+  asrLanguage: 'auto',
+  temperature: 0.3,
+  transliterationScheme: 'iast',
+  autoTitle: true,
+  ttsProvider: 'browser',
+  speechRate: 1,
+  microphoneId: '',
+  maxRecordingSeconds: 120,
+};
+
+const renderPanel = (overrides: Partial<ChatSettings> = {}, models: ModelCatalog = FALLBACK_MODEL_CATALOG) => {
+  const onSettingsChange = jest.fn();
+  const onToggleSettings = jest.fn();
+  render(
+    <SettingsPanel
+      settings={{ ...settings, ...overrides }}
+      onSettingsChange={onSettingsChange}
+      onToggleSettings={onToggleSettings}
+      models={models}
+    />
+  );
+  return { onSettingsChange, onToggleSettings };
+};
+
+const chooseOption = async (label: RegExp, option: RegExp) => {
+  fireEvent.mouseDown(screen.getByRole('combobox', { name: label }));
+  await userEvent.click(within(screen.getByRole('listbox')).getByText(option));
+};
+
+describe('SettingsPanel', () => {
+  beforeEach(() => {
+    // The device list isn't under test here; leaving it pending keeps it from updating after a test ends
+    mockListMicrophones.mockReturnValue(new Promise(() => {}));
+  });
+
+  it('notifies when the language model changes', async () => {
+    const { onSettingsChange } = renderPanel();
+
+    await chooseOption(/^Model/, /Llama 3.3 \(70B\)/);
+
+    expect(onSettingsChange).toHaveBeenCalledWith({ llmModel: 'llama-3.3-70b-versatile' });
+  });
+
+  it('lists the models the server offers with their details', async () => {
+    renderPanel({}, {
+      llm: [
+        { id: 'llama-3.1-8b-instant', label: 'Llama 3.1 (8B)', description: 'Fast', contextLength: 131072, capabilities: ['multilingual'] },
+        { id: 'qwen-qwq-32b', label: 'Qwen QwQ (32B)', description: 'Careful reasoning', contextLength: 32768, capabilities: ['reasoning'] },
+      ],
+      asr: FALLBACK_MODEL_CATALOG.asr,
+    });
+
+    fireEvent.mouseDown(screen.getByRole('combobox', { name: /^Model/ }));
+    const listbox = within(screen.getByRole('listbox'));
+
+    expect(listbox.getAllByRole('option')).toHaveLength(2);
+    expect(listbox.getByText('128K context · multilingual')).toBeInTheDocument();
+    expect(listbox.getByText('32K context · reasoning')).toBeInTheDocument();
+    expect(listbox.queryByText('Gemma 2 (9B)')).not.toBeInTheDocument();
+  });
+
+  it('keeps a retired saved model visible and offers a replacement', async () => {
+    const { onSettingsChange } = renderPanel({ llmModel: 'deepseek-r1-distill-qwen-32b' }, {
+      llm: [{ id: 'llama-3.3-70b-versatile', label: 'Llama 3.3 (70B)', description: '', capabilities: [] }],
+      asr: FALLBACK_MODEL_CATALOG.asr,
+    });
+
+    expect(screen.getByRole('combobox', { name: /^Model/ })).toHaveTextContent('deepseek-r1-distill-qwen-32b (unavailable)');
+    expect(screen.getByText(/is no longer offered/)).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Use Llama 3.3 (70B)' }));
+
+    expect(onSettingsChange).toHaveBeenCalledWith({ llmModel: 'llama-3.3-70b-versatile' });
+  });
+
+  it('notifies when the speech recognition model changes', async () => {
+    const { onSettingsChange } = renderPanel();
+
+    await chooseOption(/^Speech Recognition/, /Whisper/);
+
+    expect(onSettingsChange).toHaveBeenCalledWith({ asrModel: 'whisper' });
+  });
+
+  it('notifies when the spoken language changes', async () => {
+    const { onSettingsChange } = renderPanel();
+
+    await chooseOption(/^Spoken Language/, /^Mixed Sanskrit/);
+
+    expect(onSettingsChange).toHaveBeenCalledWith({ asrLanguage: 'mixed' });
+  });
+
+  it('notifies when the temperature changes', () => {
+    const { onSettingsChange } = renderPanel();
+
+    fireEvent.change(screen.getByRole('slider', { name: /Temperature/ }), { target: { value: 0.8 } });
+
+    expect(onSettingsChange).toHaveBeenCalledWith({ temperature: 0.8 });
+  });
+
+  it('switches the read-aloud voice and speed', async () => {
+    const { onSettingsChange } = renderPanel();
+
+    await chooseOption(/^Voice/, /Server voices/);
+    fireEvent.change(screen.getByRole('slider', { name: /Speed/ }), { target: { value: 1.5 } });
+
+    expect(onSettingsChange).toHaveBeenCalledWith({ ttsProvider: 'server' });
+    expect(onSettingsChange).toHaveBeenCalledWith({ speechRate: 1.5 });
+  });
+
+  it('returns to the chat from either back button', async () => {
+    const { onToggleSettings } = renderPanel();
+
+    for (const button of screen.getAllByRole('button', { name: 'Back to Chat' })) {
+      await userEvent.click(button);
+    }
+
+    expect(onToggleSettings).toHaveBeenCalledTimes(2);
+  });
+});
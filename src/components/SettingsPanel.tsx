@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -10,10 +10,21 @@ import {
   InputLabel,
   Button,
   IconButton,
-  Tooltip
+  Tooltip,
+  Switch,
+  FormControlLabel,
+  Alert
 } from '@mui/material';
-import { ChatSettings } from '../types';
-import { ArrowBack as ArrowBackIcon } from '@mui/icons-material';
+import { AsrLanguage, ChatSettings, ModelCatalog, ModelInfo, SettingsSaveStatus, TtsProviderName } from '../types';
+import {
+  ArrowBack as ArrowBackIcon,
+  CheckCircleOutline as AppliedIcon,
+  ErrorOutline as FailedIcon,
+  Sync as SavingIcon,
+  EditNote as UnsavedIcon,
+} from '@mui/icons-material';
+import { listMicrophones, MicrophoneOption } from '../utils/microphone';
+import { describeModelDetails, findModel } from '../utils/models';
 
 // Ayurvedic color palette
 const colors = {
@@ -31,45 +42,147 @@ interface SettingsPanelProps {
   settings: ChatSettings;
   onSettingsChange: (newSettings: Partial<ChatSettings>) => void;
   onToggleSettings: () => void;
+  models: ModelCatalog;
+  modelsUnavailable?: boolean; // The catalog couldn't be loaded, so `models` is the built-in list
+  saveStatus?: SettingsSaveStatus;
 }
 
-interface LLMOption {
-  value: string;
-  label: string;
-  description: string;
-}
+const saveStatusDisplay: Record<SettingsSaveStatus, { label: string; icon: React.ReactElement }> = {
+  applied: { label: 'All changes applied', icon: <AppliedIcon fontSize="small" /> },
+  unsaved: { label: 'Unsaved changes', icon: <UnsavedIcon fontSize="small" /> },
+  saving: { label: 'Saving…', icon: <SavingIcon fontSize="small" /> },
+  failed: { label: 'Not saved; previous settings restored', icon: <FailedIcon fontSize="small" /> },
+};
+
+const asrLanguageOptions: { value: AsrLanguage; label: string; description: string }[] = [
+  { value: 'auto', label: 'Detect automatically', description: 'Let the recognizer decide for each recording' },
+  { value: 'sa', label: 'Sanskrit', description: 'Transcribed in Devanagari' },
+  { value: 'hi', label: 'Hindi', description: 'Transcribed in Devanagari' },
+  { value: 'en', label: 'English', description: 'Transcribed in Latin script' },
+  { value: 'mixed', label: 'Mixed Sanskrit, Hindi and English', description: 'For questions that switch languages mid-sentence' },
+];
+
+const recordingLimitOptions = [
+  { value: 30, label: '30 seconds' },
+  { value: 60, label: '1 minute' },
+  { value: 120, label: '2 minutes' },
+  { value: 300, label: '5 minutes' },
+];
 
-const llmOptions: LLMOption[] = [
-  {
-    value: 'gemma2-9b-it',
-    label: 'Gemma 2 (9B)',
-    description: 'Efficient model for general questions with good balance of speed and quality'
+const selectSx = {
+  '& .MuiOutlinedInput-notchedOutline': {
+    borderColor: colors.border,
   },
-  {
-    value: 'llama-3.1-8b-instant',
-    label: 'Llama 3.1 (8B)',
-    description: 'Fast, responsive model for quick interactions and basic tasks'
+  '&:hover .MuiOutlinedInput-notchedOutline': {
+    borderColor: colors.primary,
   },
-  {
-    value: 'deepseek-r1-distill-qwen-32b',
-    label: 'DeepSeek Qwen (32B)',
-    description: 'Robust model for complex reasoning and detailed responses'
+  '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
+    borderColor: colors.primary,
   },
-  {
-    value: 'llama-3.3-70b-versatile',
-    label: 'Llama 3.3 (70B)',
-    description: 'Most capable model for complex tasks'
-  }
-];
+};
+
+interface ModelSelectProps {
+  id: string;
+  label: string;
+  models: ModelInfo[];
+  value: string;
+  onChange: (modelId: string) => void;
+}
 
-// ASR model type definition based on the settings type
-type ASRModelType = 'whisper' | 'conformer' | 'wav2vec2';
+// A saved model the server no longer offers stays selected, flagged, until the user picks another
+const ModelSelect: React.FC<ModelSelectProps> = ({ id, label, models, value, onChange }) => {
+  const selectedMissing = value !== '' && !findModel(models, value);
+
+  return (
+    <>
+      <FormControl fullWidth sx={{ mb: 3 }}>
+        <InputLabel id={`${id}-label`}>{label}</InputLabel>
+        <Select
+          labelId={`${id}-label`}
+          id={id}
+          value={value}
+          label={label}
+          onChange={(e) => onChange(e.target.value)}
+          renderValue={(selected) => findModel(models, selected)?.label ?? `${selected} (unavailable)`}
+          sx={selectSx}
+        >
+          {models.map((model) => {
+            const details = describeModelDetails(model);
+            return (
+              <MenuItem key={model.id} value={model.id}>
+                <Box>
+                  <Typography variant="body1">{model.label}</Typography>
+                  {model.description && (
+                    <Typography variant="caption" sx={{ display: 'block', color: 'text.secondary' }}>
+                      {model.description}
+                    </Typography>
+                  )}
+                  {details && (
+                    <Typography variant="caption" sx={{ display: 'block', color: colors.accent }}>
+                      {details}
+                    </Typography>
+                  )}
+                </Box>
+              </MenuItem>
+            );
+          })}
+          {selectedMissing && (
+            <MenuItem value={value} disabled>
+              {value} (no longer available)
+            </MenuItem>
+          )}
+        </Select>
+      </FormControl>
+      {selectedMissing && models.length > 0 && (
+        <Alert
+          severity="warning"
+          sx={{ mt: -1.5, mb: 3 }}
+          action={
+            <Button color="inherit" size="small" onClick={() => onChange(models[0].id)}>
+              Use {models[0].label}
+            </Button>
+          }
+        >
+          “{value}” is no longer offered. Choose another model.
+        </Alert>
+      )}
+    </>
+  );
+};
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   settings,
   onSettingsChange,
-  onToggleSettings
+  onToggleSettings,
+  models,
+  modelsUnavailable = false,
+  saveStatus = 'applied'
 }) => {
+  const [microphones, setMicrophones] = useState<MicrophoneOption[]>([]);
+
+  // Keep the list current as headsets are plugged in or removed
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => {
+      listMicrophones()
+        .then((options) => {
+          if (!cancelled) setMicrophones(options);
+        })
+        .catch((error) => console.error('Error listing microphones:', error));
+    };
+
+    refresh();
+    navigator.mediaDevices?.addEventListener?.('devicechange', refresh);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices?.removeEventListener?.('devicechange', refresh);
+    };
+  }, []);
+
+  // A saved device that is unplugged still shows, so the choice isn't silently lost
+  const selectedMicrophoneMissing = settings.microphoneId !== ''
+    && !microphones.some(microphone => microphone.deviceId === settings.microphoneId);
+
   const handleTemperatureChange = (event: Event, newValue: number | number[]) => {
     onSettingsChange({ temperature: newValue as number });
   };
@@ -115,6 +228,20 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             Settings
           </Typography>
         </Box>
+        <Box
+          role="status"
+          aria-label="Settings save status"
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 0.75,
+            fontSize: '0.85rem',
+            color: saveStatus === 'failed' ? '#FFCDD2' : 'rgba(255,255,255,0.85)',
+          }}
+        >
+          {saveStatusDisplay[saveStatus].icon}
+          {saveStatusDisplay[saveStatus].label}
+        </Box>
       </Box>
 
       {/* Settings content */}
@@ -136,27 +263,44 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             Language Model
           </Typography>
 
+          <Typography variant="caption" sx={{ display: 'block', mb: 2, color: colors.text }}>
+            Models and temperature apply to this conversation; new chats start with your latest choice.
+          </Typography>
+
+          {modelsUnavailable && (
+            <Typography variant="caption" sx={{ display: 'block', mb: 2, color: colors.text }}>
+              Couldn't load the latest models from the server; showing the default list.
+            </Typography>
+          )}
+
+          <ModelSelect
+            id="llm-model"
+            label="Model"
+            models={models.llm}
+            value={settings.llmModel}
+            onChange={(llmModel) => onSettingsChange({ llmModel })}
+          />
+
+          <ModelSelect
+            id="asr-model"
+            label="Speech Recognition"
+            models={models.asr}
+            value={settings.asrModel}
+            onChange={(asrModel) => onSettingsChange({ asrModel })}
+          />
+
           <FormControl fullWidth sx={{ mb: 3 }}>
-            <InputLabel id="llm-model-label">Model</InputLabel>
+            <InputLabel id="asr-language-label">Spoken Language</InputLabel>
             <Select
-              labelId="llm-model-label"
-              id="llm-model"
-              value={settings.llmModel}
-              label="Model"
-              onChange={(e) => onSettingsChange({ llmModel: e.target.value })}
-              sx={{
-                '& .MuiOutlinedInput-notchedOutline': {
-                  borderColor: colors.border,
-                },
-                '&:hover .MuiOutlinedInput-notchedOutline': {
-                  borderColor: colors.primary,
-                },
-                '&.Mui-focused .MuiOutlinedInput-notchedOutline': {
-                  borderColor: colors.primary,
-                },
-              }}
+              labelId="asr-language-label"
+              id="asr-language"
+              value={settings.asrLanguage}
+              label="Spoken Language"
+              onChange={(e) => onSettingsChange({ asrLanguage: e.target.value as AsrLanguage })}
+              sx={selectSx}
+              renderValue={(value) => asrLanguageOptions.find(option => option.value === value)?.label ?? value}
             >
-              {llmOptions.map((option) => (
+              {asrLanguageOptions.map((option) => (
                 <MenuItem key={option.value} value={option.value}>
                   <Box>
                     <Typography variant="body1">{option.label}</Typography>
@@ -169,14 +313,138 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </Select>
           </FormControl>
 
+          <Box sx={{ width: '100%', mb: 1 }}>
+            <Typography id="temperature-slider" gutterBottom sx={{ color: colors.text }}>
+              Temperature: {settings.temperature}
+            </Typography>
+            <Slider
+              value={settings.temperature}
+              onChange={handleTemperatureChange}
+              aria-labelledby="temperature-slider"
+              step={0.1}
+              marks
+              min={0}
+              max={1}
+              valueLabelDisplay="auto"
+              sx={{
+                color: colors.primary,
+                '& .MuiSlider-thumb': {
+                  '&:hover, &.Mui-focusVisible': {
+                    boxShadow: `0px 0px 0px 8px ${colors.primary}33`,
+                  },
+                },
+                '& .MuiSlider-valueLabel': {
+                  backgroundColor: colors.primary,
+                },
+              }}
+            />
+            <Typography variant="caption" sx={{ display: 'block', mt: 1, color: colors.text }}>
+              Lower values (closer to 0) produce more focused, deterministic responses. Higher values (closer to 1) produce more creative, varied responses.
+            </Typography>
+          </Box>
+        </Paper>
+
+        <Paper sx={{
+          p: 3,
+          borderRadius: 2,
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}>
+          <Typography variant="h6" sx={{ mb: 2, color: colors.text, fontFamily: 'serif' }}>
+            Conversations
+          </Typography>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={settings.autoTitle}
+                onChange={(e) => onSettingsChange({ autoTitle: e.target.checked })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': {
+                    color: colors.primary,
+                  },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+                    backgroundColor: colors.primary,
+                  },
+                }}
+              />
+            }
+            label="Auto-title new chats"
+            sx={{ color: colors.text }}
+          />
+          <Typography variant="caption" sx={{ display: 'block', mt: 1, color: colors.text }}>
+            After the first reply, the language model suggests a short topic title. Renaming a chat always takes precedence.
+          </Typography>
+        </Paper>
+
+        <Paper sx={{
+          p: 3,
+          borderRadius: 2,
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}>
+          <Typography variant="h6" sx={{ mb: 2, color: colors.text, fontFamily: 'serif' }}>
+            Voice Input
+          </Typography>
+
+          <FormControl fullWidth sx={{ mb: 3 }}>
+            <InputLabel id="microphone-label">Microphone</InputLabel>
+            <Select
+              labelId="microphone-label"
+              id="microphone"
+              value={settings.microphoneId}
+              label="Microphone"
+              onChange={(e) => onSettingsChange({ microphoneId: e.target.value })}
+              sx={selectSx}
+            >
+              <MenuItem value="">System default</MenuItem>
+              {microphones.map((microphone) => (
+                <MenuItem key={microphone.deviceId} value={microphone.deviceId}>
+                  {microphone.label}
+                </MenuItem>
+              ))}
+              {selectedMicrophoneMissing && (
+                <MenuItem value={settings.microphoneId}>Unavailable microphone</MenuItem>
+              )}
+            </Select>
+          </FormControl>
+
+          <FormControl fullWidth sx={{ mb: 1 }}>
+            <InputLabel id="recording-limit-label">Maximum recording length</InputLabel>
+            <Select
+              labelId="recording-limit-label"
+              id="recording-limit"
+              value={settings.maxRecordingSeconds}
+              label="Maximum recording length"
+              onChange={(e) => onSettingsChange({ maxRecordingSeconds: Number(e.target.value) })}
+              sx={selectSx}
+            >
+              {recordingLimitOptions.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant="caption" sx={{ display: 'block', mt: 1, color: colors.text }}>
+            Recording stops by itself at this length. Microphone names appear once the browser has been allowed to use the microphone.
+          </Typography>
+        </Paper>
+
+        <Paper sx={{
+          p: 3,
+          borderRadius: 2,
+          boxShadow: '0 2px 8px rgba(0,0,0,0.1)',
+        }}>
+          <Typography variant="h6" sx={{ mb: 2, color: colors.text, fontFamily: 'serif' }}>
+            Read Aloud
+          </Typography>
+
           <FormControl fullWidth sx={{ mb: 3 }}>
-            <InputLabel id="asr-model-label">Speech Recognition</InputLabel>
+            <InputLabel id="tts-provider-label">Voice</InputLabel>
             <Select
-              labelId="asr-model-label"
-              id="asr-model"
-              value={settings.asrModel}
-              label="Speech Recognition"
-              onChange={(e) => onSettingsChange({ asrModel: e.target.value as ASRModelType })}
+              labelId="tts-provider-label"
+              id="tts-provider"
+              value={settings.ttsProvider}
+              label="Voice"
+              onChange={(e) => onSettingsChange({ ttsProvider: e.target.value as TtsProviderName })}
               sx={{
                 '& .MuiOutlinedInput-notchedOutline': {
                   borderColor: colors.border,
@@ -189,25 +457,39 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
                 },
               }}
             >
-              <MenuItem value="conformer">Conformer</MenuItem>
-              <MenuItem value="whisper">Whisper</MenuItem>
-              <MenuItem value="wav2vec2">Wav2Vec2</MenuItem>
+              <MenuItem value="browser">
+                <Box>
+                  <Typography variant="body1">Browser voices</Typography>
+                  <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                    Works offline; Sanskrit uses a Hindi or Marathi voice if no Sanskrit voice is installed
+                  </Typography>
+                </Box>
+              </MenuItem>
+              <MenuItem value="server">
+                <Box>
+                  <Typography variant="body1">Server voices</Typography>
+                  <Typography variant="caption" sx={{ color: 'text.secondary' }}>
+                    Synthesized by the assistant's backend
+                  </Typography>
+                </Box>
+              </MenuItem>
             </Select>
           </FormControl>
 
           <Box sx={{ width: '100%', mb: 1 }}>
-            <Typography id="temperature-slider" gutterBottom sx={{ color: colors.text }}>
-              Temperature: {settings.temperature}
+            <Typography id="speech-rate-slider" gutterBottom sx={{ color: colors.text }}>
+              Speed: {settings.speechRate}×
             </Typography>
             <Slider
-              value={settings.temperature}
-              onChange={handleTemperatureChange}
-              aria-labelledby="temperature-slider"
-              step={0.1}
+              value={settings.speechRate}
+              onChange={(event, newValue) => onSettingsChange({ speechRate: newValue as number })}
+              aria-labelledby="speech-rate-slider"
+              step={0.25}
               marks
-              min={0}
-              max={1}
+              min={0.5}
+              max={2}
               valueLabelDisplay="auto"
+              valueLabelFormat={(value) => `${value}×`}
               sx={{
                 color: colors.primary,
                 '& .MuiSlider-thumb': {
@@ -221,7 +503,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               }}
             />
             <Typography variant="caption" sx={{ display: 'block', mt: 1, color: colors.text }}>
-              Lower values (closer to 0) produce more focused, deterministic responses. Higher values (closer to 1) produce more creative, varied responses.
+              Applies the next time a reply is read aloud.
             </Typography>
           </Box>
         </Paper>
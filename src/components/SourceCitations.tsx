@@ -0,0 +1,85 @@
+import React from 'react';
+import {
+  Box,
+  Chip,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { MenuBook as SourceIcon } from '@mui/icons-material';
+import { MessageSource } from '../types';
+
+// Ayurvedic color palette
+const colors = {
+  primary: '#8B4513', // Sandalwood brown
+  text: '#2F4F4F', // Dark slate gray
+  border: '#D2B48C', // Tan
+};
+
+// Drop the extension so chips stay short
+const displayName = (document: string) => document.replace(/\.pdf$/i, '');
+
+export const citationLabel = (source: MessageSource) =>
+  source.page ? `${displayName(source.document)}, p. ${source.page}` : displayName(source.document);
+
+interface SourceCitationsProps {
+  sources: MessageSource[];
+  onOpenSource?: (source: MessageSource) => void; // Opens the cited page; only offered for known documents
+}
+
+const SourceCitations: React.FC<SourceCitationsProps> = ({ sources, onOpenSource }) => (
+  <Box
+    component="ul"
+    aria-label="Sources"
+    sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.75, listStyle: 'none', p: 0, m: 0, mt: 1 }}
+  >
+    {sources.map((source, index) => (
+      <li key={`${source.documentId ?? source.document}-${source.page ?? ''}-${index}`}>
+        <Tooltip
+          arrow
+          placement="bottom-start"
+          title={
+            <Box sx={{ p: 0.5 }}>
+              <Typography variant="caption" sx={{ display: 'block', fontWeight: 'bold', mb: 0.5 }}>
+                {citationLabel(source)}
+              </Typography>
+              <Typography variant="body2" sx={{ fontFamily: 'serif', fontStyle: 'italic', whiteSpace: 'pre-wrap' }}>
+                {source.snippet ? `“${source.snippet}”` : 'No preview available.'}
+              </Typography>
+            </Box>
+          }
+          componentsProps={{
+            tooltip: {
+              sx: {
+                maxWidth: 360,
+                bgcolor: '#fff',
+                color: colors.text,
+                border: `1px solid ${colors.border}`,
+                boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+              },
+            },
+            arrow: { sx: { color: '#fff', '&::before': { border: `1px solid ${colors.border}` } } },
+          }}
+        >
+          <Chip
+            size="small"
+            variant="outlined"
+            icon={<SourceIcon />}
+            label={`[${index + 1}] ${citationLabel(source)}`}
+            onClick={onOpenSource && source.documentId ? () => onOpenSource(source) : undefined}
+            tabIndex={0}
+            sx={{
+              maxWidth: 260,
+              color: colors.text,
+              borderColor: colors.border,
+              bgcolor: '#fff',
+              '& .MuiChip-icon': { color: colors.primary },
+              '&:hover, &:focus-visible': { borderColor: colors.primary },
+            }}
+          />
+        </Tooltip>
+      </li>
+    ))}
+  </Box>
+);
+
+export default SourceCitations;
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { Box } from '@mui/material';
+
+// Ayurvedic color palette
+const colors = {
+  primary: '#8B4513', // Sandalwood brown
+  border: '#D2B48C', // Tan
+};
+
+const MIN_SIDE_PERCENT = 25;
+const MAX_SIDE_PERCENT = 75;
+const KEYBOARD_STEP_PERCENT = 5;
+
+const clampPercent = (value: number) => Math.min(MAX_SIDE_PERCENT, Math.max(MIN_SIDE_PERCENT, value));
+
+interface SplitPaneProps {
+  children: React.ReactNode; // Main pane, on the left
+  side?: React.ReactNode; // Right pane; without it the main pane takes the full width
+  sideLabel: string; // Names the divider for screen readers
+  defaultSidePercent?: number;
+}
+
+const SplitPane: React.FC<SplitPaneProps> = ({ children, side, sideLabel, defaultSidePercent = 45 }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [sidePercent, setSidePercent] = useState(defaultSidePercent);
+  const [isResizing, setIsResizing] = useState(false);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    setIsResizing(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!isResizing || !rect || rect.width === 0) return;
+    setSidePercent(clampPercent(((rect.right - event.clientX) / rect.width) * 100));
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowLeft') {
+      setSidePercent(prev => clampPercent(prev + KEYBOARD_STEP_PERCENT));
+    } else if (event.key === 'ArrowRight') {
+      setSidePercent(prev => clampPercent(prev - KEYBOARD_STEP_PERCENT));
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <Box ref={containerRef} sx={{ display: 'flex', height: '100%', width: '100%', position: 'relative' }}>
+      <Box sx={{ flexGrow: 1, minWidth: 0, position: 'relative', overflow: 'hidden' }}>
+        {children}
+      </Box>
+
+      {side && (
+        <>
+          <Box
+            role="separator"
+            aria-orientation="vertical"
+            aria-label={`Resize ${sideLabel}`}
+            aria-valuemin={MIN_SIDE_PERCENT}
+            aria-valuemax={MAX_SIDE_PERCENT}
+            aria-valuenow={Math.round(sidePercent)}
+            tabIndex={0}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setIsResizing(false)}
+            onPointerCancel={() => setIsResizing(false)}
+            onKeyDown={handleKeyDown}
+            sx={{
+              width: 6,
+              flexShrink: 0,
+              cursor: 'col-resize',
+              bgcolor: isResizing ? colors.primary : colors.border,
+              transition: 'background-color 0.2s ease',
+              '&:hover, &:focus-visible': { bgcolor: colors.primary, outline: 'none' },
+            }}
+          />
+          <Box sx={{ width: `${sidePercent}%`, flexShrink: 0, position: 'relative', overflow: 'hidden' }}>
+            {side}
+            {/* Embedded documents swallow pointer events, which would stall a drag over them */}
+            {isResizing && <Box sx={{ position: 'absolute', inset: 0 }} />}
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default SplitPane;
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Box, Typography, Button, IconButton, Menu, MenuItem, Tooltip } from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { Transcription } from '../types';
+import { chooseAlternative, isLowConfidence, replaceWord, transcriptWords } from '../utils/transcript';
+
+// Ayurvedic color palette
+const colors = {
+  primary: '#8B4513', // Sandalwood brown
+  secondary: '#DAA520', // Golden rod
+  text: '#2F4F4F', // Dark slate gray
+  messageBot: '#FFF8DC', // Cornsilk
+  border: '#D2B48C', // Tan
+};
+
+interface TranscriptReviewProps {
+  transcription: Transcription;
+  onChange: (transcription: Transcription) => void;
+  onDismiss: () => void;
+}
+
+const TranscriptReview: React.FC<TranscriptReviewProps> = ({ transcription, onChange, onDismiss }) => {
+  const [menu, setMenu] = useState<{ anchor: HTMLElement; index: number } | null>(null);
+  const words = transcriptWords(transcription);
+  const menuWord = menu ? words[menu.index] : null;
+
+  const pickWord = (text: string) => {
+    if (menu) onChange(replaceWord(transcription, menu.index, text));
+    setMenu(null);
+  };
+
+  return (
+    <Box
+      role="region"
+      aria-label="Transcript review"
+      sx={{
+        py: 1,
+        px: 3,
+        borderTop: `1px solid ${colors.border}`,
+        bgcolor: colors.messageBot,
+        display: 'flex',
+        alignItems: 'flex-start',
+        gap: 1,
+      }}
+    >
+      <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+        <Typography variant="caption" sx={{ display: 'block', color: `${colors.text}99` }}>
+          Heard — tap an underlined word to correct it
+        </Typography>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, color: colors.text, fontSize: '1.05rem' }}>
+          {words.map((word, index) => {
+            const low = isLowConfidence(word);
+            const label = low ? `${word.text} (${Math.round(word.confidence * 100)}% sure)` : word.text;
+
+            if (word.alternatives.length === 0) {
+              return (
+                <Box
+                  key={index}
+                  component="span"
+                  title={low ? label : undefined}
+                  sx={low ? { textDecoration: 'underline dotted', textDecorationColor: colors.secondary } : undefined}
+                >
+                  {word.text}
+                </Box>
+              );
+            }
+
+            return (
+              <Box
+                key={index}
+                component="button"
+                type="button"
+                aria-label={`${label}, pick an alternative`}
+                aria-haspopup="menu"
+                onClick={(event: React.MouseEvent<HTMLElement>) => setMenu({ anchor: event.currentTarget, index })}
+                sx={{
+                  p: 0,
+                  border: 0,
+                  background: 'none',
+                  font: 'inherit',
+                  color: 'inherit',
+                  cursor: 'pointer',
+                  textDecoration: low ? 'underline wavy' : 'underline dotted',
+                  textDecorationColor: low ? colors.secondary : colors.border,
+                  textUnderlineOffset: '4px',
+                  borderRadius: 0.5,
+                  '&:hover, &:focus-visible': { bgcolor: `${colors.secondary}30`, outline: 'none' },
+                }}
+              >
+                {word.text}
+              </Box>
+            );
+          })}
+        </Box>
+
+        {transcription.alternatives.length > 0 && (
+          <Box sx={{ mt: 0.5, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 0.5 }}>
+            <Typography variant="caption" sx={{ color: `${colors.text}99` }}>
+              Or did you say:
+            </Typography>
+            {transcription.alternatives.map((alternative) => (
+              <Button
+                key={alternative}
+                size="small"
+                onClick={() => onChange(chooseAlternative(transcription, alternative))}
+                sx={{ textTransform: 'none', color: colors.primary, py: 0, minWidth: 0 }}
+              >
+                {alternative}
+              </Button>
+            ))}
+          </Box>
+        )}
+      </Box>
+
+      <Tooltip title="Done reviewing">
+        <IconButton size="small" onClick={onDismiss} aria-label="Close transcript review" sx={{ color: colors.text }}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Tooltip>
+
+      <Menu anchorEl={menu?.anchor} open={Boolean(menu)} onClose={() => setMenu(null)}>
+        {menuWord?.alternatives.map((alternative) => (
+          <MenuItem key={alternative} onClick={() => pickWord(alternative)}>
+            {alternative}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+};
+
+export default TranscriptReview;
@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ApiError, getErrorMessage, uploadPDF } from '../services/api';
+import {
+  createQueueItems,
+  isFinished,
+  MAX_CONCURRENT_UPLOADS,
+  MAX_UPLOAD_ATTEMPTS,
+  retryDelay,
+  UploadQueueItem,
+} from '../utils/uploadQueue';
+
+export interface UploadQueue {
+  queue: UploadQueueItem[];
+  libraryVersion: number; // Bumped after each finished upload so the document list reloads
+  addFiles: (files: File[]) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+}
+
+// Runs PDF uploads for the whole app, so they keep going while the upload panel is closed
+export const useUploadQueue = (): UploadQueue => {
+  const [queue, setQueue] = useState<UploadQueueItem[]>([]);
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const controllersRef = useRef<Record<string, AbortController>>({});
+  const retryTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const updateItem = useCallback((id: string, updates: Partial<UploadQueueItem>) => {
+    setQueue(prev => prev.map(item => item.id === id ? { ...item, ...updates } : item));
+  }, []);
+
+  const startUpload = useCallback(async (item: UploadQueueItem) => {
+    const controller = new AbortController();
+    controllersRef.current[item.id] = controller;
+    const attempts = item.attempts + 1;
+    updateItem(item.id, { status: 'uploading', loadedBytes: 0, attempts, message: undefined });
+
+    try {
+      const message = await uploadPDF(item.file, {
+        signal: controller.signal,
+        // Scale to the file size; the request body also carries multipart framing
+        onProgress: (loaded, total) => updateItem(item.id, { loadedBytes: Math.round((loaded / total) * item.file.size) }),
+      });
+      updateItem(item.id, { status: 'done', loadedBytes: item.file.size, message });
+      setLibraryVersion(prev => prev + 1);
+    } catch (error) {
+      // A cancelled item was already marked by cancel
+      if (controller.signal.aborted) return;
+
+      if (error instanceof ApiError && error.retryable && attempts < MAX_UPLOAD_ATTEMPTS) {
+        updateItem(item.id, { status: 'retrying', message: getErrorMessage(error) });
+        retryTimersRef.current[item.id] = setTimeout(() => {
+          delete retryTimersRef.current[item.id];
+          updateItem(item.id, { status: 'queued' });
+        }, retryDelay(attempts));
+      } else {
+        updateItem(item.id, { status: 'failed', message: `Failed to upload PDF: ${getErrorMessage(error)}` });
+      }
+    } finally {
+      delete controllersRef.current[item.id];
+    }
+  }, [updateItem]);
+
+  // Start waiting files whenever an upload slot is free
+  useEffect(() => {
+    const active = queue.filter(item => item.status === 'uploading').length;
+    queue
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active))
+      .forEach(startUpload);
+  }, [queue, startUpload]);
+
+  // Closing the app stops everything still in flight
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    const retryTimers = retryTimersRef.current;
+    return () => {
+      Object.values(controllers).forEach(controller => controller.abort());
+      Object.values(retryTimers).forEach(clearTimeout);
+    };
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+    setQueue(prev => [...prev, ...createQueueItems(files, prev)]);
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    controllersRef.current[id]?.abort();
+    clearTimeout(retryTimersRef.current[id]);
+    delete retryTimersRef.current[id];
+    updateItem(id, { status: 'cancelled', loadedBytes: 0, message: undefined });
+  }, [updateItem]);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', attempts: 0, loadedBytes: 0, message: undefined });
+  }, [updateItem]);
+
+  const remove = useCallback((id: string) => {
+    setQueue(prev => prev.filter(item => item.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setQueue(prev => prev.filter(item => !isFinished(item)));
+  }, []);
+
+  return { queue, libraryVersion, addFiles, cancel, retry, remove, clearFinished };
+};
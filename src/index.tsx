@@ -6,8 +6,22 @@ const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
 );
 
-root.render(
+const render = () => root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-); 
\ No newline at end of file
+);
+
+// Offline development: answer API calls in the browser instead of the live service.
+// Loaded on demand and only in development builds, so production bundles leave it out.
+if (process.env.NODE_ENV === 'development' && process.env.REACT_APP_MOCK_API === 'true') {
+  import('./services/mockBackend')
+    .then(mockBackend => {
+      mockBackend.installMockBackend();
+      window.mockBackend = mockBackend;
+    })
+    .catch(error => console.error('Failed to start the mock backend:', error))
+    .then(render);
+} else {
+  render();
+}
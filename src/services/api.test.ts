@@ -0,0 +1,452 @@
+import { TextDecoder as NodeTextDecoder, TextEncoder } from 'util';
+import {
+  ApiError,
+  fetchModels,
+  listDocuments,
+  openTranscriptionStream,
+  sendMessage,
+  streamMessage,
+  transcribeAudio,
+  uploadPDF,
+} from './api';
+
+// jsdom has no TextDecoder; the stream readers need one
+global.TextDecoder = NodeTextDecoder as unknown as typeof TextDecoder;
+
+const jsonResponse = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' },
+});
+
+// A response whose body never arrives; reading it fails only once the request is aborted
+const stalledResponse = (init?: RequestInit) => ({
+  ok: true,
+  status: 200,
+  headers: new Headers({ 'Content-Type': 'application/json' }),
+  body: null,
+  json: () => new Promise((resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  }),
+}) as unknown as Response;
+
+// A streamed response whose body arrives in the given chunks
+const streamedResponse = (chunks: (string | Uint8Array)[], contentType: string, onCancel = () => {}) => {
+  const encoder = new TextEncoder();
+  const pending = chunks.map(chunk => typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+  return {
+    ok: true,
+    status: 200,
+    headers: new Headers({ 'Content-Type': contentType }),
+    body: {
+      getReader: () => ({
+        read: async () => {
+          const value = pending.shift();
+          return value ? { done: false, value } : { done: true, value: undefined };
+        },
+        cancel: async () => onCancel(),
+        releaseLock: () => {},
+      }),
+    },
+  } as unknown as Response;
+};
+
+const flushPromises = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+const mockFetch = jest.fn<Promise<Response>, [RequestInfo, RequestInit?]>();
+
+describe('request handling', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = mockFetch as typeof fetch;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('does not retry a chat message the server may already have answered', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'Overloaded' }, 503));
+
+    await expect(sendMessage('What is vata?')).rejects.toMatchObject({ status: 503 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a transient failure when loading data', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ llm: [{ id: 'llama' }], asr: [] }));
+
+    const catalog = await fetchModels();
+
+    expect(catalog.llm.map(model => model.id)).toEqual(['llama']);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('times out when the body stalls after the headers arrive', async () => {
+    jest.useFakeTimers();
+    mockFetch.mockImplementation(async (url, init) => stalledResponse(init));
+
+    const failure = sendMessage('What is vata?').catch(error => error);
+    await flushPromises();
+    jest.advanceTimersByTime(120000);
+
+    expect(await failure).toMatchObject({ code: 'timeout' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening to the caller\'s signal once the request is done', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ response: 'Namaste' }));
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    await expect(sendMessage('Hello', undefined, controller.signal)).resolves.toBe('Namaste');
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('reports an unreadable body as an ApiError', async () => {
+    mockFetch.mockResolvedValue(new Response('<html>Gateway</html>', {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    }));
+
+    const failure = sendMessage('Hello').catch(error => error);
+
+    expect(await failure).toBeInstanceOf(ApiError);
+    expect(await failure).toMatchObject({ status: 200, code: 'invalid_response' });
+  });
+
+  it('treats a null body as empty lists', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse(null));
+
+    await expect(fetchModels()).resolves.toEqual({ llm: [], asr: [] });
+    await expect(listDocuments()).resolves.toEqual([]);
+  });
+
+  it('skips documents without an id', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({
+      documents: [
+        { name: 'no-id.pdf' },
+        { id: null, name: 'null-id.pdf' },
+        { id: 7, name: 'charaka-samhita.pdf', pages: 312, status: 'indexing' },
+        { id: 'doc-2', filename: 'sushruta-samhita.pdf', status: 'unknown' },
+      ],
+    }));
+
+    const documents = await listDocuments();
+
+    expect(documents.map(({ id, name, pageCount, status }) => ({ id, name, pageCount, status }))).toEqual([
+      { id: '7', name: 'charaka-samhita.pdf', pageCount: 312, status: 'indexing' },
+      { id: 'doc-2', name: 'sushruta-samhita.pdf', pageCount: 0, status: 'ready' },
+    ]);
+  });
+
+  it('stops listening to the caller\'s signal once an upload is done', async () => {
+    const originalXhr = window.XMLHttpRequest;
+    // Just enough of XMLHttpRequest to finish an upload
+    window.XMLHttpRequest = class {
+      status = 200;
+      responseText = '{"message": "Indexed 120 pages"}';
+      timeout = 0;
+      upload = { onprogress: null };
+      onload: (() => void) | null = null;
+      open() {}
+      send() {
+        setTimeout(() => this.onload?.());
+      }
+    } as unknown as typeof XMLHttpRequest;
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+
+    try {
+      await expect(uploadPDF(new File(['%PDF'], 'a.pdf'), { signal: controller.signal })).resolves.toBe('Indexed 120 pages');
+      expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    } finally {
+      window.XMLHttpRequest = originalXhr;
+    }
+  });
+
+  it('reports a cancelled request as aborted', async () => {
+    const controller = new AbortController();
+    mockFetch.mockImplementation(async (url, init) => stalledResponse(init));
+
+    const reply = sendMessage('Hello', undefined, controller.signal);
+    await flushPromises();
+    controller.abort();
+
+    await expect(reply).rejects.toBeInstanceOf(ApiError);
+    await expect(reply).rejects.toMatchObject({ code: 'aborted' });
+  });
+});
+
+describe('reply streams', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = mockFetch as typeof fetch;
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the last event even without a blank line after it', async () => {
+    mockFetch.mockResolvedValue(streamedResponse(
+      ['data: {"token": "Nama"}\n\n', 'data: {"token": "ste", "sources": [{"document": "Charaka"}]}'],
+      'text/event-stream'
+    ));
+    const onToken = jest.fn();
+    const onSources = jest.fn();
+
+    await expect(streamMessage('Hello', undefined, onToken, undefined, onSources)).resolves.toBe('Namaste');
+    expect(onToken.mock.calls).toEqual([['Nama'], ['ste']]);
+    expect(onSources).toHaveBeenCalledWith([expect.objectContaining({ document: 'Charaka' })]);
+  });
+
+  it('stops downloading once [DONE] ends the reply', async () => {
+    const cancel = jest.fn();
+    mockFetch.mockResolvedValue(streamedResponse(
+      ['data: {"token": "Namaste"}\n\n', 'data: [DONE]\n\n', 'data: {"token": "ignored"}\n\n'],
+      'text/event-stream',
+      cancel
+    ));
+
+    await expect(streamMessage('Hello', undefined, jest.fn())).resolves.toBe('Namaste');
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('leaves a stream read to the end alone', async () => {
+    const cancel = jest.fn();
+    mockFetch.mockResolvedValue(streamedResponse(['Nama', 'ste'], 'text/plain', cancel));
+
+    await expect(streamMessage('Hello', undefined, jest.fn())).resolves.toBe('Namaste');
+    expect(cancel).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a plain reply only when streaming is not supported', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ message: 'Not found' }, 404))
+      .mockResolvedValueOnce(jsonResponse({ response: 'Namaste' }));
+    const onToken = jest.fn();
+
+    await expect(streamMessage('Hello', undefined, onToken)).resolves.toBe('Namaste');
+    expect(onToken).toHaveBeenCalledWith('Namaste');
+    expect(JSON.parse(mockFetch.mock.calls[1][1]?.body as string)).not.toHaveProperty('stream');
+
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(jsonResponse({ message: 'Message is too long' }, 422));
+
+    const error = await streamMessage('Hello', undefined, jest.fn()).catch(e => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(422);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('joins characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: धर्म\n\n');
+    mockFetch.mockResolvedValue(streamedResponse([bytes.slice(0, 8), bytes.slice(8)], 'text/event-stream'));
+
+    await expect(streamMessage('Hello', undefined, jest.fn())).resolves.toBe('धर्म');
+  });
+
+  it('flushes a truncated character at the end of a plain text stream', async () => {
+    const bytes = new TextEncoder().encode('Om धर्म');
+    mockFetch.mockResolvedValue(streamedResponse([bytes.slice(0, 4)], 'text/plain'));
+
+    await expect(streamMessage('Hello', undefined, jest.fn())).resolves.toBe('Om \uFFFD');
+  });
+
+  it('skips events whose token is not text', async () => {
+    mockFetch.mockResolvedValue(streamedResponse(
+      ['data: {"token": 42}\n\ndata: {"token": null, "delta": "Om"}\n\ndata: [DONE]\n\n'],
+      'text/event-stream'
+    ));
+    const onToken = jest.fn();
+
+    await expect(streamMessage('Hello', undefined, onToken)).resolves.toBe('Om');
+    expect(onToken.mock.calls).toEqual([['Om']]);
+  });
+
+  it('rejects a JSON reply without text instead of passing on undefined', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ sources: [] }));
+    const onToken = jest.fn();
+
+    const failure = streamMessage('Hello', undefined, onToken).catch(error => error);
+
+    expect(await failure).toMatchObject({ code: 'invalid_response' });
+    expect(onToken).not.toHaveBeenCalled();
+  });
+});
+
+// Stands in for the transcription socket; tests open it and play the server's side
+class FakeSocket {
+  static OPEN = 1;
+  static latest: FakeSocket;
+
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor() {
+    FakeSocket.latest = this;
+  }
+
+  send(data: unknown) {
+    this.sent.push(typeof data === 'string' ? JSON.parse(data) : data);
+  }
+
+  close() {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(data: unknown) {
+    this.onmessage?.({ data: typeof data === 'string' ? data : JSON.stringify(data) });
+  }
+}
+
+describe('live transcription', () => {
+  const originalWebSocket = global.WebSocket;
+
+  beforeEach(() => {
+    global.WebSocket = FakeSocket as unknown as typeof WebSocket;
+  });
+
+  afterEach(() => {
+    global.WebSocket = originalWebSocket;
+  });
+
+  const openStream = async (onPartial = jest.fn()) => {
+    const opening = openTranscriptionStream('audio/webm', 'sa', 'whisper', onPartial);
+    FakeSocket.latest.open();
+    return { stream: await opening, socket: FakeSocket.latest, onPartial };
+  };
+
+  it('reports partial transcripts and ignores malformed messages', async () => {
+    const { socket, onPartial } = await openStream();
+
+    socket.receive({ type: 'partial', transcript: 'धर्म' });
+    socket.receive('not json');
+    socket.receive({ type: 'partial', transcript: 42 });
+    socket.receive({ type: 'progress', transcript: 'ignored' });
+    socket.receive({ type: 'partial', transcript: 'धर्म क्षेत्रे' });
+
+    expect(onPartial.mock.calls).toEqual([['धर्म'], ['धर्म क्षेत्रे']]);
+    expect(socket.sent[0]).toEqual({ type: 'start', mimeType: 'audio/webm', language: 'sa', asrModel: 'whisper' });
+  });
+
+  it('resolves with the final result after the audio ends', async () => {
+    const { stream, socket } = await openStream();
+    const chunk = new Blob(['audio']);
+
+    stream.send(chunk);
+    const result = stream.finish();
+    socket.receive({ type: 'final', transcript: 'धर्म क्षेत्रे' });
+
+    await expect(result).resolves.toMatchObject({ transcript: 'धर्म क्षेत्रे' });
+    expect(socket.sent.slice(1)).toEqual([chunk, { type: 'end' }]);
+  });
+
+  it('rejects with the error the server sends', async () => {
+    const { stream, socket } = await openStream();
+
+    const result = stream.finish().catch(error => error);
+    socket.receive({ type: 'error', code: 'model_unavailable', message: 'Model is loading' });
+
+    expect(await result).toMatchObject({ code: 'model_unavailable', serverMessage: 'Model is loading' });
+  });
+
+  it('reports a socket that closes before the final result', async () => {
+    const { stream, socket } = await openStream();
+
+    socket.close();
+
+    await expect(stream.finish()).rejects.toMatchObject({ code: 'stream_interrupted' });
+  });
+
+  it('rejects when the socket closes before it opens', async () => {
+    const opening = openTranscriptionStream('audio/webm', 'sa', 'whisper', jest.fn());
+    FakeSocket.latest.close();
+
+    await expect(opening).rejects.toMatchObject({ code: 'network_error' });
+  });
+});
+
+describe('transcription results', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = mockFetch as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const transcribe = (payload: unknown) => {
+    mockFetch.mockResolvedValue(jsonResponse(payload));
+    return transcribeAudio(new Blob(['audio']), 'sa', 'whisper');
+  };
+
+  it('reads words, confidences and alternatives', async () => {
+    await expect(transcribe({
+      transcript: 'धर्म क्षेत्रे',
+      words: [
+        { text: 'धर्म', confidence: 0.42, alternatives: ['धर्मे'] },
+        { word: 'क्षेत्रे', probability: 1.7 },
+      ],
+      alternatives: ['धर्मक्षेत्रे', { transcript: 'धर्म क्षेत्र' }],
+    })).resolves.toEqual({
+      transcript: 'धर्म क्षेत्रे',
+      words: [
+        { text: 'धर्म', confidence: 0.42, alternatives: ['धर्मे'] },
+        { text: 'क्षेत्रे', confidence: 1, alternatives: [] },
+      ],
+      alternatives: ['धर्मक्षेत्रे', 'धर्म क्षेत्र'],
+    });
+  });
+
+  it('leaves out malformed words and alternatives', async () => {
+    await expect(transcribe({
+      transcript: 'धर्म',
+      words: [
+        'धर्म',
+        null,
+        { text: 42, confidence: 0.5 },
+        { text: 'धर्म', confidence: null, alternatives: [7, '', 'धर्मे', { text: 'x' }] },
+        { text: 'क्षेत्रे', confidence: '0.3' },
+      ],
+      alternatives: 'धर्मे',
+    })).resolves.toEqual({
+      transcript: 'धर्म',
+      words: [
+        { text: 'धर्म', confidence: 1, alternatives: ['धर्मे'] },
+        { text: 'क्षेत्रे', confidence: 1, alternatives: [] },
+      ],
+      alternatives: [],
+    });
+  });
+
+  it('returns an empty transcript for a payload of the wrong shape', async () => {
+    const empty = { transcript: '', words: [], alternatives: [] };
+
+    await expect(transcribe({ transcript: 42, words: {}, alternatives: [null, { transcript: 5 }] })).resolves.toEqual(empty);
+    await expect(transcribe(['धर्म'])).resolves.toEqual(empty);
+    await expect(transcribe(null)).resolves.toEqual(empty);
+  });
+});
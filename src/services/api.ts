@@ -1,6 +1,17 @@
-import { ChatSettings } from '../types';
+import {
+  AsrLanguage,
+  ChatMessage,
+  ConversationContext,
+  MessageSource,
+  ModelCatalog,
+  ModelInfo,
+  ServerSettings,
+  Transcription,
+  TranscriptWord,
+  UploadedDocument,
+} from '../types';
 
-const API_BASE_URL = process.env.REACT_APP_API_URL || 'https://autumn-sound-4207.ploomber.app/api';
+export const API_BASE_URL = process.env.REACT_APP_API_URL || 'https://autumn-sound-4207.ploomber.app/api';
 
 const defaultFetchOptions = {
   mode: 'cors' as const,
@@ -9,104 +20,955 @@ const defaultFetchOptions = {
   },
 };
 
-export const sendMessage = async (message: string): Promise<string> => {
+// Per-call timeouts in milliseconds
+const TIMEOUTS = {
+  chat: 120000,
+  transcribe: 60000,
+  transcribeStreamConnect: 5000,
+  settings: 10000,
+  models: 10000,
+  clearHistory: 10000,
+  title: 30000,
+  documents: 15000,
+  reindex: 180000,
+  upload: 180000,
+  documentFile: 60000,
+  tts: 60000,
+};
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+
+// Statuses worth retrying: timeouts, rate limits and transient server failures
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+export interface ApiErrorDetails {
+  status: number; // 0 when no response was received
+  code: string;
+  serverMessage?: string;
+  retryable: boolean;
+}
+
+export class ApiError extends Error implements ApiErrorDetails {
+  status: number;
+  code: string;
+  serverMessage?: string;
+  retryable: boolean;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message);
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.name = 'ApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.serverMessage = details.serverMessage;
+    this.retryable = details.retryable;
+  }
+}
+
+// Human-readable description of a failed call, suitable for showing to the user
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof ApiError) {
+    if (error.code === 'aborted') return 'Request cancelled.';
+    if (error.code === 'timeout') return 'The server took too long to respond.';
+    if (error.code === 'network_error') return 'Could not reach the server. Check your connection.';
+    if (error.code === 'invalid_response') return 'The server sent a response that could not be read.';
+    return error.serverMessage || `${error.message} (${error.status})`;
+  }
+  return error instanceof Error ? error.message : 'Something went wrong.';
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof ApiError && error.code === 'aborted';
+
+interface RequestOptions {
+  errorMessage: string;
+  timeoutMs: number; // Covers the headers and the body; streamed bodies restart it on every chunk
+  retries?: number;
+  signal?: AbortSignal; // Lets the caller cancel the request, including a streamed body
+}
+
+// Reads the body while the request's timeout is still running; streams call keepAlive as data arrives
+type ResponseReader<T> = (response: Response, keepAlive: () => void) => Promise<T>;
+
+// Bodies are parsed as unknown; each caller checks the shape it needs
+const readJson: ResponseReader<unknown> = (response) => response.json();
+const readBlob: ResponseReader<Blob> = (response) => response.blob();
+const ignoreBody: ResponseReader<void> = async () => undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const abortedError = (errorMessage: string) =>
+  new ApiError(errorMessage, { status: 0, code: 'aborted', retryable: false });
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timeoutId);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  const timeoutId = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const toApiError = async (response: Response, errorMessage: string): Promise<ApiError> => {
+  let body: any = null;
   try {
-    const response = await fetch(`${API_BASE_URL}/chat`, {
-      ...defaultFetchOptions,
-      method: 'POST',
-      body: JSON.stringify({ message }),
-    });
+    const text = await response.text();
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text ? { message: text } : null;
+    }
+  } catch {
+    // The body is optional detail; the status alone is enough
+  }
+
+  const serverMessage = body?.message ?? body?.detail ?? (typeof body?.error === 'string' ? body.error : undefined);
+
+  return new ApiError(errorMessage, {
+    status: response.status,
+    code: body?.code ?? `http_${response.status}`,
+    serverMessage: typeof serverMessage === 'string' ? serverMessage : undefined,
+    retryable: RETRYABLE_STATUSES.includes(response.status),
+  });
+};
+
+const timeoutError = (errorMessage: string) =>
+  new ApiError(errorMessage, { status: 0, code: 'timeout', retryable: true });
+
+const fetchOnce = async <T>(
+  path: string,
+  init: RequestInit,
+  { errorMessage, timeoutMs, signal }: RequestOptions,
+  read: ResponseReader<T>
+): Promise<T> => {
+  if (signal?.aborted) throw abortedError(errorMessage);
+
+  const controller = new AbortController();
+  // Stays attached until the body is read so cancelling also stops a streamed body
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let timedOut = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const keepAlive = () => {
+    if (timeoutId) clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  keepAlive();
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(`${API_BASE_URL}${path}`, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (signal?.aborted) throw abortedError(errorMessage);
+      throw timedOut
+        ? timeoutError(errorMessage)
+        : new ApiError(errorMessage, { status: 0, code: 'network_error', serverMessage: (error as Error).message, retryable: true });
+    }
 
     if (!response.ok) {
-      throw new Error('Failed to send message');
+      throw await toApiError(response, errorMessage);
+    }
+
+    try {
+      return await read(response, keepAlive);
+    } catch (error) {
+      if (signal?.aborted) throw abortedError(errorMessage);
+      if (timedOut) throw timeoutError(errorMessage);
+      if (error instanceof ApiError) throw error;
+      // Such as invalid JSON on a successful status
+      throw new ApiError(errorMessage, {
+        status: response.status,
+        code: 'invalid_response',
+        serverMessage: (error as Error).message,
+        retryable: true,
+      });
+    }
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Fetches and reads the response with a timeout, retrying transient failures with exponential backoff
+const request = async <T>(
+  path: string,
+  init: RequestInit,
+  options: RequestOptions,
+  read: ResponseReader<T>
+): Promise<T> => {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(path, init, options, read);
+    } catch (error) {
+      if (!(error instanceof ApiError) || !error.retryable || attempt >= retries) {
+        throw error;
+      }
+      try {
+        await delay(RETRY_BASE_DELAY_MS * 2 ** attempt, options.signal);
+      } catch {
+        throw abortedError(options.errorMessage);
+      }
     }
+  }
+};
+
+// Number of prior messages sent along with each chat request
+const HISTORY_WINDOW = 10;
+
+const toHistoryTurns = (messages: ChatMessage[]) => messages
+  .filter(turn => turn.text && !turn.error)
+  .slice(-HISTORY_WINDOW)
+  .map(turn => ({
+    role: turn.sender === 'user' ? 'user' : 'assistant',
+    content: turn.text,
+  }));
+
+const buildChatPayload = (message: string, context?: ConversationContext) => ({
+  message,
+  ...(context && {
+    conversationId: context.conversationId,
+    history: toHistoryTurns(context.history),
+    ...(context.generation && {
+      llmModel: context.generation.llmModel,
+      temperature: context.generation.temperature,
+    }),
+  }),
+});
+
+const toSource = (raw: any): MessageSource => {
+  const page = Number(raw.page ?? raw.page_number);
+  return {
+    documentId: raw.documentId ?? raw.document_id ?? undefined,
+    document: raw.document ?? raw.documentName ?? raw.source ?? raw.title ?? 'Unknown document',
+    page: Number.isInteger(page) && page > 0 ? page : undefined,
+    snippet: raw.snippet ?? raw.text ?? raw.content ?? '',
+  };
+};
+
+// Citations come back as `sources`; anything unusable is dropped
+const parseSources = (raw: unknown): MessageSource[] =>
+  Array.isArray(raw)
+    ? raw.filter(item => item && typeof item === 'object').map(toSource)
+    : [];
+
+interface ChatReply {
+  text: string;
+  sources: MessageSource[];
+}
+
+// A reply without a text string is rejected rather than shown as "undefined"
+const readChatReply: ResponseReader<ChatReply> = async (response) => {
+  const data: unknown = await response.json();
+  const fields: Record<string, unknown> = isRecord(data) ? data : {};
+  const { response: text, sources } = fields;
+  if (typeof text !== 'string') {
+    throw new ApiError('The server returned a reply without text', {
+      status: response.status,
+      code: 'invalid_response',
+      retryable: true,
+    });
+  }
+  return { text, sources: parseSources(sources) };
+};
+
+export const sendMessage = async (
+  message: string,
+  context?: ConversationContext,
+  signal?: AbortSignal,
+  onSources?: (sources: MessageSource[]) => void
+): Promise<string> => {
+  try {
+    // Not retried: the server may already have answered and stored the turn, and failed replies offer Retry
+    const { text, sources } = await request('/chat', {
+      ...defaultFetchOptions,
+      method: 'POST',
+      body: JSON.stringify(buildChatPayload(message, context)),
+    }, { errorMessage: 'Failed to send message', timeoutMs: TIMEOUTS.chat, retries: 0, signal }, readChatReply);
 
-    const data = await response.json();
-    return data.response;
+    if (sources.length > 0) onSources?.(sources);
+    return text;
   } catch (error) {
+    if (signal?.aborted) throw abortedError('Failed to send message');
     console.error('Error sending message:', error);
     throw error;
   }
 };
 
-export const transcribeAudio = async (audioBlob: Blob): Promise<string> => {
+// Pull the text token, and any citations, out of a single SSE `data:` payload
+const parseStreamEvent = (payload: string): { token: string; sources: MessageSource[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch {
+    return { token: payload, sources: [] };
+  }
+
+  if (typeof parsed === 'string') return { token: parsed, sources: [] };
+  if (typeof parsed !== 'object' || parsed === null) return { token: payload, sources: [] };
+
+  const { token, delta, response, sources } = parsed as Record<string, unknown>;
+  const text = [token, delta, response].find((value): value is string => typeof value === 'string');
+  return { token: text ?? '', sources: parseSources(sources) };
+};
+
+type ChunkReader = () => Promise<ReadableStreamReadResult<Uint8Array>>;
+
+const readEventStream = async (
+  read: ChunkReader,
+  onToken: (token: string) => void,
+  onSources?: (sources: MessageSource[]) => void
+): Promise<string> => {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let fullText = '';
+
+  while (true) {
+    const { done, value } = await read();
+    // At the end, flush the decoder and take what's left as the last event, even without a blank line after it
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    // SSE events are separated by a blank line
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : events.pop() || '';
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).replace(/^ /, ''))
+        .join('\n');
+
+      if (!data) continue;
+      if (data === '[DONE]') return fullText;
+
+      const { token, sources } = parseStreamEvent(data);
+      if (sources.length > 0) onSources?.(sources);
+      if (token) {
+        fullText += token;
+        onToken(token);
+      }
+    }
+
+    if (done) return fullText;
+  }
+};
+
+const readChunkedStream = async (
+  read: ChunkReader,
+  onToken: (token: string) => void
+): Promise<string> => {
+  const decoder = new TextDecoder();
+  let fullText = '';
+
+  while (true) {
+    const { done, value } = await read();
+    // The final decode flushes any bytes held back from an incomplete character
+    const token = done ? decoder.decode() : decoder.decode(value, { stream: true });
+    if (token) {
+      fullText += token;
+      onToken(token);
+    }
+    if (done) return fullText;
+  }
+};
+
+// Statuses that mean the endpoint or the streaming request itself isn't supported, not that the message was bad
+const STREAM_UNSUPPORTED_STATUSES = [404, 405, 406, 415, 501];
+
+// Streams the bot response token-by-token, falling back to sendMessage when the server doesn't stream
+export const streamMessage = async (
+  message: string,
+  context: ConversationContext | undefined,
+  onToken: (token: string) => void,
+  signal?: AbortSignal,
+  onSources?: (sources: MessageSource[]) => void
+): Promise<string> => {
+  const readReply: ResponseReader<string> = async (response, keepAlive) => {
+    const contentType = response.headers.get('Content-Type') || '';
+
+    if (contentType.includes('application/json') || !response.body) {
+      const { text, sources } = await readChatReply(response, keepAlive);
+      if (sources.length > 0) onSources?.(sources);
+      onToken(text);
+      return text;
+    }
+
+    const reader = response.body.getReader();
+    let finished = false;
+    // Each chunk restarts the timeout, so only a stalled stream times out
+    const read = async () => {
+      const result = await reader.read();
+      finished = result.done;
+      keepAlive();
+      return result;
+    };
+    try {
+      return contentType.includes('text/event-stream')
+        ? await readEventStream(read, onToken, onSources)
+        : await readChunkedStream(read, onToken);
+    } catch (error) {
+      throw new ApiError('Connection lost while receiving the response', {
+        status: response.status,
+        code: 'stream_interrupted',
+        serverMessage: (error as Error).message,
+        retryable: true,
+      });
+    } finally {
+      // [DONE] or a failure can end reading early; stop the rest of the download
+      if (!finished) reader.cancel().catch(() => {});
+      reader.releaseLock();
+    }
+  };
+
+  try {
+    // Not retried, like sendMessage
+    return await request('/chat', {
+      ...defaultFetchOptions,
+      method: 'POST',
+      headers: {
+        ...defaultFetchOptions.headers,
+        Accept: 'text/event-stream, text/plain, application/json',
+      },
+      body: JSON.stringify({ ...buildChatPayload(message, context), stream: true }),
+    }, { errorMessage: 'Failed to send message', timeoutMs: TIMEOUTS.chat, retries: 0, signal }, readReply);
+  } catch (error) {
+    // Servers without streaming support may reject the extra flag outright
+    if (error instanceof ApiError && STREAM_UNSUPPORTED_STATUSES.includes(error.status)) {
+      const text = await sendMessage(message, context, signal, onSources);
+      onToken(text);
+      return text;
+    }
+    if (!isAbortError(error)) {
+      console.error('Error streaming message:', error);
+    }
+    throw error;
+  }
+};
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value !== '';
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const toTranscriptWord = (raw: Record<string, unknown>): TranscriptWord => {
+  const confidence = [raw.confidence, raw.probability].find(isFiniteNumber);
+  return {
+    text: [raw.text, raw.word].find(isText) ?? '',
+    confidence: confidence === undefined ? 1 : Math.min(1, Math.max(0, confidence)),
+    alternatives: Array.isArray(raw.alternatives) ? raw.alternatives.filter(isText) : [],
+  };
+};
+
+// Servers may send only `transcript`; words and alternatives are optional extras.
+// Anything of the wrong type is left out rather than shown.
+const parseTranscription = (data: unknown): Transcription => {
+  const fields = isRecord(data) ? data : {};
+  const transcript = typeof fields.transcript === 'string' ? fields.transcript : '';
+  const words = Array.isArray(fields.words)
+    ? fields.words.filter(isRecord).map(toTranscriptWord).filter(word => word.text)
+    : [];
+  const alternatives = (Array.isArray(fields.alternatives) ? fields.alternatives : [])
+    .map(alternative => (isRecord(alternative) ? alternative.transcript : alternative))
+    .filter((alternative): alternative is string => isText(alternative) && alternative !== transcript);
+  return { transcript, words, alternatives };
+};
+
+export const transcribeAudio = async (
+  audioBlob: Blob,
+  language: AsrLanguage,
+  model: string,
+  signal?: AbortSignal
+): Promise<Transcription> => {
   try {
     // Create FormData to send the audio file
     const formData = new FormData();
     formData.append('audio', audioBlob, 'recording.wav');
+    formData.append('language', language);
+    formData.append('asrModel', model);
 
-    const response = await fetch(`${API_BASE_URL}/transcribe`, {
+    const data = await request('/transcribe', {
       ...defaultFetchOptions,
       method: 'POST',
       body: formData,
       headers: {}, // Remove Content-Type header for FormData
+    }, { errorMessage: 'Failed to transcribe audio', timeoutMs: TIMEOUTS.transcribe, signal }, readJson);
+
+    return parseTranscription(data);
+  } catch (error) {
+    if (signal?.aborted) throw abortedError('Failed to transcribe audio');
+    console.error('Error transcribing audio:', error);
+    throw error;
+  }
+};
+
+export interface TranscriptionStream {
+  send: (chunk: Blob) => void;
+  finish: () => Promise<Transcription>; // Ends the audio and resolves with the final transcript
+  cancel: () => void;
+}
+
+export const TRANSCRIPTION_STREAM_URL = `${API_BASE_URL.replace(/^http/, 'ws')}/transcribe/stream`;
+
+// The live transcription protocol: the client sends `start`, the audio as binary chunks, then `end`;
+// the server answers with partial transcripts and then one final result or an error
+type TranscriptionClientMessage =
+  | { type: 'start'; mimeType: string; language: AsrLanguage; asrModel: string }
+  | { type: 'end' };
+
+type TranscriptionServerMessage =
+  | { type: 'partial'; transcript: string }
+  | { type: 'final'; transcription: Transcription }
+  | { type: 'error'; code: string; message?: string };
+
+// Returns null for anything that isn't a well-formed message, so it can be ignored
+const parseTranscriptionMessage = (raw: unknown): TranscriptionServerMessage | null => {
+  if (typeof raw !== 'string') return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) return null;
+
+  const { type, transcript, code, message } = data as Record<string, unknown>;
+  switch (type) {
+    case 'partial':
+      return typeof transcript === 'string' ? { type, transcript } : null;
+    case 'final':
+      return { type, transcription: parseTranscription(data) };
+    case 'error':
+      return {
+        type,
+        code: typeof code === 'string' && code ? code : 'stream_error',
+        ...(typeof message === 'string' && { message }),
+      };
+    default:
+      return null;
+  }
+};
+
+// Streams recorded chunks over a WebSocket and reports partial transcripts as they arrive.
+// Rejects when live transcription isn't available, so callers can fall back to transcribeAudio.
+export const openTranscriptionStream = (
+  mimeType: string,
+  language: AsrLanguage,
+  model: string,
+  onPartial: (transcript: string) => void
+): Promise<TranscriptionStream> => new Promise((resolve, reject) => {
+  const errorMessage = 'Live transcription is not available';
+  if (typeof WebSocket === 'undefined') {
+    reject(new ApiError(errorMessage, { status: 0, code: 'unsupported', retryable: false }));
+    return;
+  }
+
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(TRANSCRIPTION_STREAM_URL);
+  } catch (error) {
+    reject(new ApiError(errorMessage, { status: 0, code: 'network_error', serverMessage: (error as Error).message, retryable: false }));
+    return;
+  }
+
+  const sendControl = (message: TranscriptionClientMessage) => socket.send(JSON.stringify(message));
+
+  let opened = false;
+  let finalTranscript: Transcription | null = null;
+  let failure: Error | null = null;
+  let pending: { resolve: (transcript: Transcription) => void; reject: (error: Error) => void } | null = null;
+  let finishTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const settle = () => {
+    if (!pending || (finalTranscript === null && !failure)) return;
+    if (finishTimer) clearTimeout(finishTimer);
+    if (finalTranscript !== null) {
+      pending.resolve(finalTranscript);
+    } else if (failure) {
+      pending.reject(failure);
+    }
+    pending = null;
+  };
+
+  const fail = (error: Error) => {
+    failure = failure ?? error;
+    settle();
+    socket.close();
+  };
+
+  const connectTimer = setTimeout(() => {
+    reject(new ApiError(errorMessage, { status: 0, code: 'timeout', retryable: false }));
+    socket.close();
+  }, TIMEOUTS.transcribeStreamConnect);
+
+  socket.onopen = () => {
+    opened = true;
+    clearTimeout(connectTimer);
+    sendControl({ type: 'start', mimeType, language, asrModel: model });
+    resolve({
+      send: (chunk) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(chunk);
+      },
+      finish: () => new Promise<Transcription>((resolveFinish, rejectFinish) => {
+        pending = { resolve: resolveFinish, reject: rejectFinish };
+        if (finalTranscript === null && !failure) {
+          sendControl({ type: 'end' });
+          finishTimer = setTimeout(() => fail(new ApiError('Failed to transcribe audio', {
+            status: 0,
+            code: 'timeout',
+            retryable: true,
+          })), TIMEOUTS.transcribe);
+        }
+        settle();
+      }),
+      cancel: () => fail(abortedError('Failed to transcribe audio')),
     });
+  };
 
-    if (!response.ok) {
-      throw new Error('Failed to transcribe audio');
+  socket.onmessage = (event) => {
+    const message = parseTranscriptionMessage(event.data);
+
+    if (message?.type === 'partial') {
+      onPartial(message.transcript);
+    } else if (message?.type === 'final') {
+      finalTranscript = message.transcription;
+      settle();
+      socket.close();
+    } else if (message?.type === 'error') {
+      fail(new ApiError('Failed to transcribe audio', {
+        status: 0,
+        code: message.code,
+        serverMessage: message.message,
+        retryable: true,
+      }));
+    }
+  };
+
+  socket.onclose = () => {
+    clearTimeout(connectTimer);
+    if (!opened) {
+      reject(new ApiError(errorMessage, { status: 0, code: 'network_error', retryable: false }));
+    } else if (finalTranscript === null) {
+      fail(new ApiError('Connection lost during live transcription', {
+        status: 0,
+        code: 'stream_interrupted',
+        retryable: true,
+      }));
     }
+  };
+});
+
+const toModelInfo = (raw: any): ModelInfo => {
+  const contextLength = Number(raw.contextLength ?? raw.context_length ?? raw.context_window);
+  return {
+    id: String(raw.id ?? raw.value ?? raw.name ?? ''),
+    label: String(raw.label ?? raw.name ?? raw.id ?? ''),
+    description: String(raw.description ?? ''),
+    contextLength: Number.isFinite(contextLength) && contextLength > 0 ? contextLength : undefined,
+    capabilities: Array.isArray(raw.capabilities) ? raw.capabilities.map(String) : [],
+  };
+};
+
+const parseModels = (raw: unknown): ModelInfo[] =>
+  Array.isArray(raw)
+    ? raw.filter(item => item && typeof item === 'object').map(toModelInfo).filter(model => model.id)
+    : [];
+
+export const fetchModels = async (): Promise<ModelCatalog> => {
+  try {
+    const data = await request('/models', {
+      ...defaultFetchOptions,
+      method: 'GET',
+    }, { errorMessage: 'Failed to load models', timeoutMs: TIMEOUTS.models }, readJson);
 
-    const data = await response.json();
-    return data.transcript;
+    const fields = isRecord(data) ? data : {};
+    return {
+      llm: parseModels(fields.llm ?? fields.llmModels),
+      asr: parseModels(fields.asr ?? fields.asrModels),
+    };
   } catch (error) {
-    console.error('Error transcribing audio:', error);
+    console.error('Error loading models:', error);
+    throw error;
+  }
+};
+
+const ASR_LANGUAGES: AsrLanguage[] = ['auto', 'sa', 'hi', 'en', 'mixed'];
+
+const isAsrLanguage = (value: unknown): value is AsrLanguage => ASR_LANGUAGES.some(language => language === value);
+
+// Keeps the server settings that have the expected type
+const parseServerSettings = (data: unknown): Partial<ServerSettings> => {
+  const fields: Record<string, unknown> = isRecord(data) ? data : {};
+  const { llmModel, asrModel, asrLanguage, temperature } = fields;
+  return {
+    ...(typeof llmModel === 'string' && { llmModel }),
+    ...(typeof asrModel === 'string' && { asrModel }),
+    ...(isAsrLanguage(asrLanguage) && { asrLanguage }),
+    ...(isFiniteNumber(temperature) && { temperature }),
+  };
+};
+
+// The server may return only the settings it knows about
+export const fetchSettings = async (): Promise<Partial<ServerSettings>> => {
+  try {
+    const data = await request('/settings', {
+      ...defaultFetchOptions,
+      method: 'GET',
+    }, { errorMessage: 'Failed to load settings', timeoutMs: TIMEOUTS.settings }, readJson);
+
+    return parseServerSettings(data);
+  } catch (error) {
+    console.error('Error loading settings:', error);
     throw error;
   }
 };
 
-export const updateSettings = async (settings: ChatSettings): Promise<void> => {
+export const updateSettings = async (settings: ServerSettings): Promise<void> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/settings`, {
+    await request('/settings', {
       ...defaultFetchOptions,
       method: 'POST',
       body: JSON.stringify(settings),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to update settings');
-    }
+    }, { errorMessage: 'Failed to update settings', timeoutMs: TIMEOUTS.settings }, ignoreBody);
   } catch (error) {
     console.error('Error updating settings:', error);
     throw error;
   }
 };
 
-export const clearHistory = async (): Promise<void> => {
+// Voices text on the server; each segment names its language so Devanagari gets a suitable voice
+export const synthesizeSpeech = async (
+  text: string,
+  segments: { text: string; lang: string }[],
+  signal?: AbortSignal
+): Promise<Blob> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/clear-history`, {
+    return await request('/tts', {
       ...defaultFetchOptions,
       method: 'POST',
-    });
+      headers: {
+        ...defaultFetchOptions.headers,
+        Accept: 'audio/*',
+      },
+      body: JSON.stringify({ text, segments }),
+    }, { errorMessage: 'Failed to synthesize speech', timeoutMs: TIMEOUTS.tts, signal }, readBlob);
+  } catch (error) {
+    if (signal?.aborted) throw abortedError('Failed to synthesize speech');
+    console.error('Error synthesizing speech:', error);
+    throw error;
+  }
+};
 
-    if (!response.ok) {
-      throw new Error('Failed to clear history');
-    }
+// Clears the server-side memory of a single conversation
+export const clearHistory = async (conversationId: string): Promise<void> => {
+  try {
+    await request('/clear-history', {
+      ...defaultFetchOptions,
+      method: 'POST',
+      body: JSON.stringify({ conversationId }),
+    }, { errorMessage: 'Failed to clear history', timeoutMs: TIMEOUTS.clearHistory }, ignoreBody);
   } catch (error) {
     console.error('Error clearing history:', error);
     throw error;
   }
 };
 
-export const uploadPDF = async (file: File): Promise<string> => {
+const MAX_TITLE_LENGTH = 60;
+
+// Asks the LLM for a short topic title summarising the conversation so far
+export const generateTitle = async (messages: ChatMessage[]): Promise<string> => {
+  try {
+    const { status, data } = await request('/generate-title', {
+      ...defaultFetchOptions,
+      method: 'POST',
+      body: JSON.stringify({ history: toHistoryTurns(messages) }),
+    }, { errorMessage: 'Failed to generate title', timeoutMs: TIMEOUTS.title, retries: 0 },
+    async (response) => ({ status: response.status, data: await readJson(response, () => {}) }));
+
+    // Models like to wrap titles in quotes or end them with a full stop
+    const raw = isRecord(data) && typeof data.title === 'string' ? data.title : '';
+    const title = raw.trim().replace(/^["'“]+|["'”.]+$/g, '').trim();
+    if (!title) {
+      throw new ApiError('The server returned an empty title', {
+        status,
+        code: 'empty_title',
+        retryable: false,
+      });
+    }
+    return title.slice(0, MAX_TITLE_LENGTH);
+  } catch (error) {
+    console.error('Error generating title:', error);
+    throw error;
+  }
+};
+
+export interface UploadOptions {
+  onProgress?: (loadedBytes: number, totalBytes: number) => void;
+  signal?: AbortSignal;
+}
+
+// fetch can't report upload progress, so uploads go through XMLHttpRequest instead of request()
+const sendWithProgress = (
+  path: string,
+  body: FormData,
+  { errorMessage, timeoutMs, onProgress, signal }: RequestOptions & Omit<UploadOptions, 'signal'>
+): Promise<unknown> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortedError(errorMessage));
+    return;
+  }
+
+  const xhr = new XMLHttpRequest();
+  const onAbort = () => xhr.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  xhr.open('POST', `${API_BASE_URL}${path}`);
+  xhr.timeout = timeoutMs;
+
+  xhr.upload.onprogress = (event) => {
+    if (event.lengthComputable) onProgress?.(event.loaded, event.total);
+  };
+  xhr.onload = () => {
+    signal?.removeEventListener('abort', onAbort);
+    if (xhr.status >= 200 && xhr.status < 300) {
+      try {
+        resolve(xhr.responseText ? JSON.parse(xhr.responseText) : {});
+      } catch {
+        resolve({ message: xhr.responseText });
+      }
+      return;
+    }
+    toApiError(new Response(xhr.responseText, { status: xhr.status }), errorMessage).then(reject);
+  };
+  xhr.onerror = () => {
+    signal?.removeEventListener('abort', onAbort);
+    reject(new ApiError(errorMessage, { status: 0, code: 'network_error', retryable: true }));
+  };
+  xhr.ontimeout = () => {
+    signal?.removeEventListener('abort', onAbort);
+    reject(new ApiError(errorMessage, { status: 0, code: 'timeout', retryable: true }));
+  };
+  xhr.onabort = () => {
+    signal?.removeEventListener('abort', onAbort);
+    reject(abortedError(errorMessage));
+  };
+
+  xhr.send(body);
+});
+
+// Not retried here; the upload queue decides whether a failed file goes again
+export const uploadPDF = async (file: File, { onProgress, signal }: UploadOptions = {}): Promise<string> => {
   try {
     const formData = new FormData();
     formData.append('file', file);
 
-    const response = await fetch(`${API_BASE_URL}/upload`, {
+    const data = await sendWithProgress('/upload', formData, {
+      errorMessage: 'Failed to upload PDF',
+      timeoutMs: TIMEOUTS.upload,
+      onProgress,
+      signal,
+    });
+    return isRecord(data) && typeof data.message === 'string' ? data.message : 'Upload complete';
+  } catch (error) {
+    if (!isAbortError(error)) console.error('Error uploading PDF:', error);
+    throw error;
+  }
+};
+
+const DOCUMENT_STATUSES: UploadedDocument['status'][] = ['ready', 'indexing', 'failed'];
+
+const toUploadDate = (value: unknown): Date => {
+  const date = typeof value === 'string' || isFiniteNumber(value) ? new Date(value) : new Date(NaN);
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+// Entries without an id can't be opened, deleted or re-indexed, so they are skipped
+const toDocument = (raw: unknown): UploadedDocument | null => {
+  if (!isRecord(raw)) return null;
+  const { id, status } = raw;
+  if (!isText(id) && !isFiniteNumber(id)) return null;
+
+  return {
+    id: String(id),
+    name: [raw.name, raw.filename].find(isText) ?? 'Untitled document',
+    sizeBytes: [raw.sizeBytes, raw.size].find(isFiniteNumber) ?? 0,
+    pageCount: [raw.pageCount, raw.pages].find(isFiniteNumber) ?? 0,
+    uploadedAt: toUploadDate(raw.uploadedAt ?? raw.uploaded_at),
+    status: DOCUMENT_STATUSES.find(known => known === status) ?? 'ready',
+  };
+};
+
+export const listDocuments = async (): Promise<UploadedDocument[]> => {
+  try {
+    const data = await request('/documents', {
+      ...defaultFetchOptions,
+      method: 'GET',
+    }, { errorMessage: 'Failed to load documents', timeoutMs: TIMEOUTS.documents }, readJson);
+
+    const documents = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.documents) ? data.documents : [];
+    return documents
+      .map(toDocument)
+      .filter((document): document is UploadedDocument => document !== null);
+  } catch (error) {
+    console.error('Error loading documents:', error);
+    throw error;
+  }
+};
+
+export const deleteDocument = async (documentId: string): Promise<void> => {
+  try {
+    await request(`/documents/${encodeURIComponent(documentId)}`, {
+      ...defaultFetchOptions,
+      method: 'DELETE',
+    }, { errorMessage: 'Failed to delete document', timeoutMs: TIMEOUTS.documents }, ignoreBody);
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    throw error;
+  }
+};
+
+// Rebuilds the document's search index; returns the document with its updated status
+export const reindexDocument = async (documentId: string): Promise<UploadedDocument> => {
+  try {
+    const data = await request(`/documents/${encodeURIComponent(documentId)}/reindex`, {
       ...defaultFetchOptions,
       method: 'POST',
-      body: formData,
-      headers: {}, // Remove Content-Type header for FormData
-    });
+    }, { errorMessage: 'Failed to re-index document', timeoutMs: TIMEOUTS.reindex, retries: 0 }, readJson);
 
-    if (!response.ok) {
-      throw new Error('Failed to upload PDF');
+    const document = toDocument(isRecord(data) && isRecord(data.document) ? data.document : data);
+    if (!document) {
+      throw new ApiError('Failed to re-index document', { status: 200, code: 'invalid_response', retryable: false });
     }
+    return document;
+  } catch (error) {
+    console.error('Error re-indexing document:', error);
+    throw error;
+  }
+};
 
-    const data = await response.json();
-    return data.message;
+// Downloads the original PDF so the viewer can show it
+export const fetchDocumentFile = async (documentId: string, signal?: AbortSignal): Promise<Blob> => {
+  try {
+    const blob = await request(`/documents/${encodeURIComponent(documentId)}/file`, {
+      mode: 'cors',
+      method: 'GET',
+      headers: { Accept: 'application/pdf' },
+    }, { errorMessage: 'Failed to load document', timeoutMs: TIMEOUTS.documentFile, signal }, readBlob);
+
+    // Some servers send a generic content type; the viewer needs to know it's a PDF
+    return blob.type === 'application/pdf' ? blob : new Blob([blob], { type: 'application/pdf' });
   } catch (error) {
-    console.error('Error uploading PDF:', error);
+    if (signal?.aborted) throw abortedError('Failed to load document');
+    console.error('Error loading document file:', error);
     throw error;
   }
-}; 
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import DocumentLibrary from '../components/DocumentLibrary';
+import { API_BASE_URL, ApiError, fetchModels, fetchSettings, listDocuments, sendMessage, uploadPDF } from './api';
+import {
+  getMockRequests,
+  installMockBackend,
+  resetMockBackend,
+  scriptMockResponse,
+  setMockDelay,
+  uninstallMockBackend,
+} from './mockBackend';
+
+describe('mock backend', () => {
+  beforeEach(() => {
+    installMockBackend();
+    resetMockBackend();
+    setMockDelay(0);
+  });
+
+  afterEach(() => {
+    uninstallMockBackend();
+    jest.restoreAllMocks();
+  });
+
+  it('answers API calls from its default handlers and logs them', async () => {
+    const catalog = await fetchModels();
+    const reply = await sendMessage('What is ojas?');
+
+    expect(catalog.llm.map(model => model.id)).toContain('llama-3.1-8b-instant');
+    expect(reply).toContain('Mock response** to "What is ojas?"');
+    expect(getMockRequests()).toEqual([
+      { method: 'GET', path: '/models', body: null },
+      { method: 'POST', path: '/chat', body: expect.objectContaining({ message: 'What is ojas?' }) },
+    ]);
+  });
+
+  it('uses scripted responses for as many requests as asked, then the defaults again', async () => {
+    scriptMockResponse({ path: '/chat', method: 'POST', response: { body: { response: 'Scripted' } }, times: 2 });
+    scriptMockResponse({ path: '/settings', response: () => ({ body: { llmModel: 'gemma2-9b-it' } }) });
+
+    await expect(sendMessage('One')).resolves.toBe('Scripted');
+    await expect(sendMessage('Two')).resolves.toBe('Scripted');
+    await expect(sendMessage('Three')).resolves.toContain('Mock response');
+    await expect(fetchSettings()).resolves.toEqual({ llmModel: 'gemma2-9b-it' });
+  });
+
+  it('delays responses by the scripted time', async () => {
+    scriptMockResponse({ path: '/models', delayMs: 200 });
+    const startedAt = Date.now();
+
+    await fetchModels();
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(190);
+  });
+
+  it('fails requests with scripted errors and network failures', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    scriptMockResponse({ path: '/chat', response: { status: 422, body: { code: 'bad_request', message: 'Message is empty' } } });
+    scriptMockResponse({ path: '/documents', networkError: true, times: 3 });
+
+    const chatError = await sendMessage('').catch(error => error);
+    expect(chatError).toBeInstanceOf(ApiError);
+    expect(chatError).toMatchObject({ status: 422, serverMessage: 'Message is empty' });
+
+    const listError = await listDocuments().catch(error => error);
+    expect(listError).toBeInstanceOf(ApiError);
+    expect(listError.code).toBe('network_error');
+  });
+
+  it('keeps only the latest requests in its log', async () => {
+    for (let i = 0; i < 120; i++) {
+      await window.fetch(`${API_BASE_URL}/settings`);
+    }
+    await window.fetch(`${API_BASE_URL}/models`);
+
+    const requests = getMockRequests();
+    expect(requests).toHaveLength(100);
+    expect(requests[requests.length - 1].path).toBe('/models');
+  });
+
+  it('reports upload progress and times out slow uploads', async () => {
+    const onProgress = jest.fn();
+    const file = new File(['%PDF'], 'sutra.pdf', { type: 'application/pdf' });
+
+    await expect(uploadPDF(file, { onProgress })).resolves.toBe('Successfully uploaded sutra.pdf');
+    expect(onProgress).toHaveBeenLastCalledWith(4, 4);
+
+    scriptMockResponse({ path: '/upload', delayMs: 1000 });
+    const xhr = new XMLHttpRequest();
+    const timedOut = new Promise<void>((resolve) => {
+      xhr.ontimeout = () => resolve();
+    });
+    xhr.onload = jest.fn();
+    xhr.open('POST', `${API_BASE_URL}/upload`);
+    xhr.timeout = 50;
+    xhr.send(new FormData());
+
+    await timedOut;
+    expect(xhr.onload).not.toHaveBeenCalled();
+  });
+
+  it('serves the document library without a network', async () => {
+    render(<DocumentLibrary />);
+    const list = await screen.findByRole('list', { name: 'Uploaded documents' });
+    expect(within(list).getAllByRole('listitem')).toHaveLength(2);
+
+    await userEvent.click(screen.getByRole('button', { name: 'Delete ashtanga-hridayam.pdf' }));
+    await userEvent.click(within(screen.getByRole('dialog')).getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(within(list).getAllByRole('listitem')).toHaveLength(1));
+    expect(list).toHaveTextContent('charaka-samhita-sutrasthana.pdf');
+    expect(getMockRequests()).toContainEqual({
+      method: 'DELETE',
+      path: '/documents/doc-2',
+      body: null,
+      params: { id: 'doc-2' },
+    });
+  });
+});
@@ -0,0 +1,638 @@
+import { API_BASE_URL, TRANSCRIPTION_STREAM_URL } from './api';
+
+// In-browser stand-in for the API, enabled in development with REACT_APP_MOCK_API=true
+// and installed by tests that exercise the real API client without a network.
+// It intercepts window.fetch for URLs under API_BASE_URL and answers from the
+// default handlers below unless a scripted response matches first. Uploads use
+// XMLHttpRequest for progress events, so that is swapped for a fetch-backed shim.
+// Live transcription sockets get a scripted stand-in; other WebSockets (such as
+// the dev server's) are left alone.
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body: unknown; // Parsed JSON, form fields, or the raw body
+  params?: Record<string, string>; // Values for `:name` segments in the handler's path
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+  stream?: string[]; // Sent as server-sent events, one token per event
+  streamSources?: unknown[]; // Citations sent as one event after the streamed tokens
+  file?: Blob; // Sent as-is instead of a JSON body
+}
+
+export interface MockScript {
+  path: string;
+  method?: string;
+  response?: MockResponse | ((request: MockRequest) => MockResponse);
+  delayMs?: number;
+  networkError?: boolean;
+  times?: number; // Number of matching requests this script answers; defaults to 1
+}
+
+type MockHandler = (request: MockRequest) => MockResponse;
+
+declare global {
+  interface Window {
+    // Exposed so responses, delays and failures can be scripted from the devtools console
+    mockBackend?: typeof import('./mockBackend');
+  }
+}
+
+const DEFAULT_DELAY_MS = 400;
+const MOCK_TRANSCRIPT = 'धर्म क्षेत्रे कुरुक्षेत्रे';
+// Live transcription reveals one more word of the transcript every few audio chunks
+const CHUNKS_PER_WORD = 4;
+const TOKEN_DELAY_MS = 30;
+const UPLOAD_PROGRESS_STEPS = 5;
+// Only the latest requests are kept, so a long session doesn't hold on to every upload
+const MAX_LOGGED_REQUESTS = 100;
+
+let originalFetch: typeof window.fetch | null = null;
+let originalXMLHttpRequest: typeof window.XMLHttpRequest | null = null;
+let originalWebSocket: typeof window.WebSocket | null = null;
+let scripts: MockScript[] = [];
+let requestLog: MockRequest[] = [];
+let delayMs = DEFAULT_DELAY_MS;
+
+const initialSettings = (): Record<string, unknown> => ({
+  llmModel: 'llama-3.1-8b-instant',
+  asrModel: 'conformer',
+  asrLanguage: 'auto',
+  temperature: 0.3,
+});
+
+let storedSettings = initialSettings();
+
+interface MockDocument {
+  id: string;
+  name: string;
+  sizeBytes: number;
+  pageCount: number;
+  uploadedAt: string;
+  status: 'ready' | 'indexing' | 'failed';
+}
+
+const initialDocuments = (): MockDocument[] => [
+  {
+    id: 'doc-1',
+    name: 'charaka-samhita-sutrasthana.pdf',
+    sizeBytes: 4718592,
+    pageCount: 312,
+    uploadedAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
+    status: 'ready',
+  },
+  {
+    id: 'doc-2',
+    name: 'ashtanga-hridayam.pdf',
+    sizeBytes: 2621440,
+    pageCount: 188,
+    uploadedAt: new Date(Date.now() - 26 * 60 * 60 * 1000).toISOString(),
+    status: 'ready',
+  },
+];
+
+let documents = initialDocuments();
+
+const notFound = (what: string): MockResponse => ({
+  status: 404,
+  body: { code: 'not_found', message: `${what} not found` },
+});
+
+const mockReply = (message: string) =>
+  `**Mock response** to "${message}".\n\nThe *tridosha* — वात, पित्त and कफ — govern the body's functions.`;
+
+// The current lineup: the 32B DeepSeek distill has been retired in favour of the 70B one
+const mockModels = {
+  llm: [
+    {
+      id: 'gemma2-9b-it',
+      label: 'Gemma 2 (9B)',
+      description: 'Efficient model for general questions with good balance of speed and quality',
+      contextLength: 8192,
+      capabilities: ['streaming'],
+    },
+    {
+      id: 'llama-3.1-8b-instant',
+      label: 'Llama 3.1 (8B)',
+      description: 'Fast, responsive model for quick interactions and basic tasks',
+      contextLength: 131072,
+      capabilities: ['streaming', 'multilingual'],
+    },
+    {
+      id: 'deepseek-r1-distill-llama-70b',
+      label: 'DeepSeek Llama (70B)',
+      description: 'Step-by-step reasoning for complex questions',
+      contextLength: 131072,
+      capabilities: ['streaming', 'reasoning'],
+    },
+    {
+      id: 'llama-3.3-70b-versatile',
+      label: 'Llama 3.3 (70B)',
+      description: 'Most capable model for complex tasks',
+      contextLength: 131072,
+      capabilities: ['streaming', 'multilingual'],
+    },
+  ],
+  asr: [
+    { id: 'conformer', label: 'Conformer', description: 'Tuned for Sanskrit recitation', capabilities: ['streaming', 'word confidence'] },
+    { id: 'whisper', label: 'Whisper', description: 'Broad language coverage', capabilities: ['multilingual', 'alternatives'] },
+    { id: 'wav2vec2', label: 'Wav2Vec2', description: 'Lightweight and quick', capabilities: [] },
+  ],
+};
+
+// One unsure word with alternatives, so the transcript review has something to offer
+const mockTranscription = () => ({
+  transcript: MOCK_TRANSCRIPT,
+  words: MOCK_TRANSCRIPT.split(' ').map((word, index) => (index === 1
+    ? { word, confidence: 0.42, alternatives: ['क्षेत्र', 'क्षत्रे'] }
+    : { word, confidence: 0.93 })),
+  alternatives: ['धर्मक्षेत्रे कुरुक्षेत्रे'],
+});
+
+// Cites the first indexed document, as a RAG answer would
+const mockSources = () => documents
+  .filter(doc => doc.status === 'ready')
+  .slice(0, 1)
+  .map(doc => ({
+    documentId: doc.id,
+    document: doc.name,
+    page: Math.min(42, doc.pageCount),
+    snippet: 'वायुः पित्तं कफश्चेति त्रयो दोषाः समासतः — vāta, pitta and kapha are, in brief, the three doṣas.',
+  }));
+
+const MOCK_PDF_MAX_PAGES = 60;
+
+// Builds a small text-only PDF, one page per document page (capped), so the viewer has something to show
+const mockPdf = (doc: MockDocument): Blob => {
+  const pageCount = Math.max(1, Math.min(doc.pageCount, MOCK_PDF_MAX_PAGES));
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${Array.from({ length: pageCount }, (_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pageCount} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Times-Roman >>',
+  ];
+  // Keep the title to plain ASCII without PDF string delimiters
+  const title = doc.name.replace(/[^\x20-\x7E]|[()\\]/g, '');
+  for (let page = 1; page <= pageCount; page++) {
+    const text = `BT /F1 18 Tf 72 720 Td (${title}) Tj 0 -36 Td /F1 14 Tf (Page ${page}) Tj `
+      + `0 -36 Td (vata, pitta and kapha are, in brief, the three doshas.) Tj ET`;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + (page - 1) * 2} 0 R >>`,
+      `<< /Length ${text.length} >>\nstream\n${text}\nendstream`,
+    );
+  }
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Blob([pdf], { type: 'application/pdf' });
+};
+
+const MOCK_SPEECH_SECONDS_PER_CHAR = 0.07;
+const MOCK_SPEECH_MAX_SECONDS = 30;
+const MOCK_SPEECH_SAMPLE_RATE = 8000;
+
+// Silent 16-bit mono WAV about as long as reading the text would take
+const mockSpeech = (text: string): Blob => {
+  const seconds = Math.min(MOCK_SPEECH_MAX_SECONDS, Math.max(1, text.length * MOCK_SPEECH_SECONDS_PER_CHAR));
+  const dataBytes = Math.round(seconds * MOCK_SPEECH_SAMPLE_RATE) * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataBytes));
+  const writeAscii = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, MOCK_SPEECH_SAMPLE_RATE, true);
+  view.setUint32(28, MOCK_SPEECH_SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataBytes, true);
+
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// Handlers read request bodies through these, since a scripted client can send anything
+const fieldsOf = (body: unknown): Record<string, unknown> =>
+  typeof body === 'object' && body !== null ? body as Record<string, unknown> : {};
+
+const textField = (body: unknown, key: string): string => {
+  const value = fieldsOf(body)[key];
+  return typeof value === 'string' ? value : '';
+};
+
+const handlers: Record<string, MockHandler> = {
+  'POST /chat': ({ body }) => {
+    const text = mockReply(textField(body, 'message'));
+    return fieldsOf(body).stream === true
+      ? { stream: text.match(/\S+\s*/g) || [], streamSources: mockSources() }
+      : { body: { response: text, sources: mockSources() } };
+  },
+  'POST /transcribe': () => ({ body: mockTranscription() }),
+  'POST /tts': ({ body }) => ({ file: mockSpeech(textField(body, 'text')) }),
+  'GET /models': () => ({ body: mockModels }),
+  'GET /settings': () => ({ body: storedSettings }),
+  'POST /settings': ({ body }) => {
+    storedSettings = { ...storedSettings, ...fieldsOf(body) };
+    return { body: storedSettings };
+  },
+  'POST /clear-history': () => ({ body: { message: 'History cleared' } }),
+  'POST /generate-title': ({ body }) => {
+    const { history } = fieldsOf(body);
+    const question = Array.isArray(history)
+      ? textField(history.find(turn => fieldsOf(turn).role === 'user'), 'content')
+      : '';
+    const words = question.replace(/[?.!,]/g, '').split(/\s+/).filter(word => word.length > 3).slice(0, 4);
+    return { body: { title: words.length > 0 ? `About ${words.join(' ')}` : 'Sanskrit conversation' } };
+  },
+  'POST /upload': ({ body }) => {
+    const { file: entry } = fieldsOf(body);
+    const file = entry instanceof File ? entry : undefined;
+    const name = file?.name ?? 'document.pdf';
+    documents = [...documents, {
+      id: `doc-${Date.now()}`,
+      name,
+      sizeBytes: file?.size ?? 0,
+      pageCount: Math.max(1, Math.round((file?.size ?? 0) / 15000)),
+      uploadedAt: new Date().toISOString(),
+      status: 'ready',
+    }];
+    return { body: { message: `Successfully uploaded ${name}` } };
+  },
+  'GET /documents': () => ({ body: { documents } }),
+  'DELETE /documents/:id': ({ params }) => {
+    if (!documents.some(doc => doc.id === params?.id)) return notFound('Document');
+    documents = documents.filter(doc => doc.id !== params?.id);
+    return { status: 204 };
+  },
+  'GET /documents/:id/file': ({ params }) => {
+    const document = documents.find(doc => doc.id === params?.id);
+    return document ? { file: mockPdf(document) } : notFound('Document');
+  },
+  'POST /documents/:id/reindex': ({ params }) => {
+    const document = documents.find(doc => doc.id === params?.id);
+    if (!document) return notFound('Document');
+    return { body: { document: { ...document, status: 'ready' } } };
+  },
+};
+
+// Finds the handler for a request, filling in `:name` path segments
+const findHandler = (request: MockRequest): MockHandler | undefined => {
+  const exact = handlers[`${request.method} ${request.path}`];
+  if (exact) return exact;
+
+  const segments = request.path.split('/');
+  for (const [key, handler] of Object.entries(handlers)) {
+    const [method, pattern] = key.split(' ');
+    const patternSegments = pattern.split('/');
+    if (method !== request.method || patternSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = patternSegments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[index]);
+        return true;
+      }
+      return segment === segments[index];
+    });
+
+    if (matches) {
+      request.params = params;
+      return handler;
+    }
+  }
+  return undefined;
+};
+
+const logRequest = (request: MockRequest) => {
+  requestLog = [...requestLog.slice(1 - MAX_LOGGED_REQUESTS), request];
+};
+
+const wait = (ms: number, signal?: AbortSignal | null) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new DOMException('Aborted', 'AbortError'));
+    return;
+  }
+  const timeoutId = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+const parseBody = (body: BodyInit | null | undefined): unknown => {
+  if (!body) return null;
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  if (body instanceof FormData) {
+    const entries: Record<string, FormDataEntryValue> = {};
+    body.forEach((value, key) => {
+      entries[key] = value;
+    });
+    return entries;
+  }
+  return body;
+};
+
+const takeScript = (request: MockRequest): MockScript | undefined => {
+  const index = scripts.findIndex(script =>
+    script.path === request.path && (!script.method || script.method.toUpperCase() === request.method)
+  );
+  if (index === -1) return undefined;
+
+  const script = scripts[index];
+  const remaining = (script.times ?? 1) - 1;
+  if (remaining > 0) {
+    scripts[index] = { ...script, times: remaining };
+  } else {
+    scripts.splice(index, 1);
+  }
+  return script;
+};
+
+const streamResponse = (
+  tokens: string[],
+  sources: unknown[] | undefined,
+  status: number,
+  signal?: AbortSignal | null
+): Response => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (const token of tokens) {
+          await wait(TOKEN_DELAY_MS, signal);
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ token })}\n\n`));
+        }
+        if (sources?.length) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ sources })}\n\n`));
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    status,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+};
+
+const handleRequest = async (path: string, init?: RequestInit): Promise<Response> => {
+  const request: MockRequest = {
+    method: (init?.method || 'GET').toUpperCase(),
+    path,
+    body: parseBody(init?.body),
+  };
+  logRequest(request);
+
+  const script = takeScript(request);
+  await wait(script?.delayMs ?? delayMs, init?.signal);
+
+  if (script?.networkError) {
+    throw new TypeError('Failed to fetch (mock network error)');
+  }
+
+  const handler = findHandler(request);
+  const scripted = typeof script?.response === 'function' ? script.response(request) : script?.response;
+  const result: MockResponse = scripted
+    ?? (handler ? handler(request) : { status: 404, body: { code: 'not_found', message: `No mock for ${request.method} ${path}` } });
+  const status = result.status ?? 200;
+
+  if (result.file) {
+    return new Response(result.file, {
+      status,
+      headers: { 'Content-Type': result.file.type || 'application/octet-stream' },
+    });
+  }
+
+  if (result.stream) {
+    return streamResponse(result.stream, result.streamSources, status, init?.signal);
+  }
+
+  // A 204 response must not carry a body
+  return new Response(result.body === undefined || status === 204 ? null : JSON.stringify(result.body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+const bodySize = (body: XMLHttpRequestBodyInit | null | undefined): number => {
+  if (body instanceof FormData) {
+    let size = 0;
+    body.forEach((value) => {
+      size += typeof value === 'string' ? value.length : value.size;
+    });
+    return size;
+  }
+  return typeof body === 'string' ? body.length : 0;
+};
+
+// Just enough of XMLHttpRequest for uploads: reports progress in a few steps, then sends through fetch
+class MockXMLHttpRequest {
+  status = 0;
+  responseText = '';
+  timeout = 0;
+  upload: { onprogress: ((event: ProgressEvent) => void) | null } = { onprogress: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+
+  private method = 'GET';
+  private url = '';
+  private controller = new AbortController();
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader() {}
+
+  abort() {
+    this.controller.abort();
+  }
+
+  async send(body?: XMLHttpRequestBodyInit | null) {
+    const { signal } = this.controller;
+    const total = bodySize(body);
+    let timedOut = false;
+    const timeoutId = this.timeout > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        this.controller.abort();
+      }, this.timeout)
+      : null;
+
+    try {
+      for (let step = 1; step <= UPLOAD_PROGRESS_STEPS; step++) {
+        await wait(delayMs / UPLOAD_PROGRESS_STEPS, signal);
+        this.upload.onprogress?.({ lengthComputable: true, loaded: (total * step) / UPLOAD_PROGRESS_STEPS, total } as ProgressEvent);
+      }
+
+      const response = await window.fetch(this.url, { method: this.method, body, signal });
+      this.status = response.status;
+      this.responseText = await response.text();
+      this.onload?.();
+    } catch {
+      if (timedOut) {
+        this.ontimeout?.();
+      } else if (signal.aborted) {
+        this.onabort?.();
+      } else {
+        this.onerror?.();
+      }
+    } finally {
+      if (timeoutId) clearTimeout(timeoutId);
+    }
+  }
+}
+
+// Live transcription: a partial transcript per audio chunk, the full one once the client ends the stream.
+// A networkError script for '/transcribe/stream' refuses the connection, to exercise the upload fallback.
+class MockTranscriptionSocket {
+  readyState: number = WebSocket.CONNECTING;
+  binaryType: BinaryType = 'blob';
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+
+  private chunks = 0;
+
+  constructor(readonly url: string) {
+    const request: MockRequest = { method: 'GET', path: '/transcribe/stream', body: null };
+    logRequest(request);
+    const script = takeScript(request);
+
+    setTimeout(() => {
+      if (this.readyState !== WebSocket.CONNECTING) return;
+      if (script?.networkError) {
+        this.onerror?.(new Event('error'));
+        this.close();
+        return;
+      }
+      this.readyState = WebSocket.OPEN;
+      this.onopen?.(new Event('open'));
+    }, script?.delayMs ?? delayMs / 4);
+  }
+
+  send(data: string | Blob) {
+    if (this.readyState !== WebSocket.OPEN) return;
+
+    if (typeof data === 'string') {
+      if (JSON.parse(data).type === 'end') {
+        setTimeout(() => this.reply({ type: 'final', ...mockTranscription() }), delayMs);
+      }
+      return;
+    }
+
+    this.chunks++;
+    const words = MOCK_TRANSCRIPT.split(' ');
+    this.reply({ type: 'partial', transcript: words.slice(0, Math.ceil(this.chunks / CHUNKS_PER_WORD)).join(' ') });
+  }
+
+  close() {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    this.onclose?.(new CloseEvent('close'));
+  }
+
+  private reply(message: unknown) {
+    if (this.readyState === WebSocket.OPEN) {
+      this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(message) }));
+    }
+  }
+}
+
+export const installMockBackend = () => {
+  if (originalFetch) return;
+
+  originalFetch = window.fetch;
+  const passthrough = originalFetch.bind(window);
+
+  window.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    if (!url.startsWith(API_BASE_URL)) {
+      return passthrough(input, init);
+    }
+    return handleRequest(url.slice(API_BASE_URL.length).split('?')[0], init);
+  };
+
+  originalXMLHttpRequest = window.XMLHttpRequest;
+  window.XMLHttpRequest = MockXMLHttpRequest as unknown as typeof XMLHttpRequest;
+
+  originalWebSocket = window.WebSocket;
+  const RealWebSocket = originalWebSocket;
+  const MockWebSocket = function (url: string | URL, protocols?: string | string[]) {
+    return String(url).startsWith(TRANSCRIPTION_STREAM_URL)
+      ? new MockTranscriptionSocket(String(url))
+      : new RealWebSocket(url, protocols);
+  };
+  window.WebSocket = Object.assign(MockWebSocket, {
+    CONNECTING: RealWebSocket.CONNECTING,
+    OPEN: RealWebSocket.OPEN,
+    CLOSING: RealWebSocket.CLOSING,
+    CLOSED: RealWebSocket.CLOSED,
+  }) as unknown as typeof WebSocket;
+};
+
+export const uninstallMockBackend = () => {
+  if (!originalFetch) return;
+  window.fetch = originalFetch;
+  originalFetch = null;
+  if (originalXMLHttpRequest) {
+    window.XMLHttpRequest = originalXMLHttpRequest;
+    originalXMLHttpRequest = null;
+  }
+  if (originalWebSocket) {
+    window.WebSocket = originalWebSocket;
+    originalWebSocket = null;
+  }
+};
+
+// Queue a response for the next matching request(s), e.g. a failure or a slow reply
+export const scriptMockResponse = (script: MockScript) => {
+  scripts.push(script);
+};
+
+export const setMockDelay = (ms: number) => {
+  delayMs = ms;
+};
+
+export const getMockRequests = (): MockRequest[] => [...requestLog];
+
+// Back to the default delay and the starting documents and settings, with no scripts or logged requests
+export const resetMockBackend = () => {
+  scripts = [];
+  requestLog = [];
+  delayMs = DEFAULT_DELAY_MS;
+  storedSettings = initialSettings();
+  documents = initialDocuments();
+};
@@ -0,0 +1,99 @@
+import { ChatHistoryItem } from '../types';
+import { loadChatState, saveChatState, STORAGE_VERSION } from './storage';
+
+const LOCAL_STORAGE_KEY = 'ayurveda-guru:chatState';
+
+const chat: ChatHistoryItem = {
+  id: 'chat-1',
+  title: 'Dinacharya',
+  timestamp: new Date('2024-03-01T08:00:00Z'),
+  pinned: true,
+  settings: { llmModel: 'llama', asrModel: 'whisper', temperature: 0.4 },
+  messages: [
+    { id: 'm1', text: 'What is dinacharya?', sender: 'user', timestamp: new Date('2024-03-01T08:00:00Z') },
+    {
+      id: 'm2',
+      text: 'The daily routine.',
+      sender: 'bot',
+      timestamp: new Date('2024-03-01T08:00:05Z'),
+      sources: [{ document: 'Ashtanga Hridayam', page: 12, snippet: 'Wake in brahma muhurta' }],
+      generation: { llmModel: 'llama', temperature: 0.4 },
+    },
+  ],
+};
+
+const store = (value: unknown) => window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(value));
+
+describe('chat storage', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('restores saved chats with their dates', async () => {
+    await saveChatState({ chatHistory: [chat], activeChatId: 'chat-1' });
+
+    const stored = JSON.parse(window.localStorage.getItem(LOCAL_STORAGE_KEY) as string);
+    expect(stored.version).toBe(STORAGE_VERSION);
+
+    const loaded = await loadChatState();
+    expect(loaded).toEqual({ status: 'loaded', state: { chatHistory: [chat], activeChatId: 'chat-1' } });
+    expect(loaded.status === 'loaded' && loaded.state.chatHistory[0].messages[1].timestamp).toBeInstanceOf(Date);
+  });
+
+  it('tells an empty store apart from data it cannot read', async () => {
+    await expect(loadChatState()).resolves.toEqual({ status: 'empty' });
+
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, '{"version": 1, "chatHis');
+    await expect(loadChatState()).resolves.toEqual({ status: 'unreadable' });
+
+    store({ version: STORAGE_VERSION + 1, chatHistory: [], activeChatId: null });
+    await expect(loadChatState()).resolves.toEqual({ status: 'unreadable' });
+
+    store({ version: STORAGE_VERSION, chatHistory: 'not a list', activeChatId: null });
+    await expect(loadChatState()).resolves.toEqual({ status: 'unreadable' });
+
+    store([{ id: 'chat-1', title: 'No version', messages: [] }]);
+    await expect(loadChatState()).resolves.toEqual({ status: 'unreadable' });
+  });
+
+  it('drops malformed chats, messages and unknown fields', async () => {
+    store({
+      version: STORAGE_VERSION,
+      activeChatId: 'chat-1',
+      chatHistory: [
+        'not a chat',
+        { id: 'no-messages', title: 'Broken' },
+        {
+          id: 'chat-1',
+          title: 'Mixed',
+          timestamp: 'not a date',
+          autoTitlePending: 'yes',
+          settings: { llmModel: 'llama' },
+          extra: true,
+          messages: [
+            { id: 'm1', text: 'Kept', sender: 'user', timestamp: '2024-03-01T08:00:00Z', extra: 1 },
+            { id: 'm2', text: 42, sender: 'bot' },
+            { id: 'm3', text: 'No sender' },
+            null,
+          ],
+        },
+      ],
+    });
+
+    const loaded = await loadChatState();
+
+    expect(loaded.status === 'loaded' && loaded.state.chatHistory).toHaveLength(1);
+    const [restored] = loaded.status === 'loaded' ? loaded.state.chatHistory : [];
+    expect(Object.keys(restored).sort()).toEqual(['id', 'messages', 'timestamp', 'title']);
+    expect(restored.timestamp).toBeInstanceOf(Date);
+    expect(restored.messages).toEqual([
+      { id: 'm1', text: 'Kept', sender: 'user', timestamp: new Date('2024-03-01T08:00:00Z') },
+    ]);
+  });
+});
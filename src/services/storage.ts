@@ -0,0 +1,279 @@
+import {
+  ChatHistoryItem,
+  ChatMessage,
+  ChatSettings,
+  ConversationSettings,
+  GenerationSettings,
+  MessageSource,
+} from '../types';
+
+const DB_NAME = 'ayurveda-guru';
+const DB_STORE = 'state';
+const STATE_KEY = 'chatState';
+const LOCAL_STORAGE_KEY = 'ayurveda-guru:chatState';
+const SETTINGS_KEY = 'ayurveda-guru:settings';
+
+// Bump this whenever the persisted shape changes and add a migration below
+export const STORAGE_VERSION = 1;
+
+export interface PersistedChatState {
+  chatHistory: ChatHistoryItem[];
+  activeChatId: string | null;
+}
+
+// `unreadable` means something is stored but can't be used here (corrupt, or from a newer version),
+// so it must not be overwritten
+export type LoadedChatState =
+  | { status: 'empty' }
+  | { status: 'loaded'; state: PersistedChatState }
+  | { status: 'unreadable' };
+
+// Shape written to storage: dates become ISO strings
+interface StoredChatState {
+  version: number;
+  chatHistory: unknown[];
+  activeChatId: string | null;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each migration upgrades a stored state from version N to N + 1
+const migrations: Record<number, (state: unknown) => unknown> = {};
+
+const storedVersion = (state: unknown): number | null =>
+  isRecord(state) && typeof state.version === 'number' ? state.version : null;
+
+const isStoredChatState = (state: unknown): state is StoredChatState =>
+  isRecord(state)
+  && typeof state.version === 'number'
+  && Array.isArray(state.chatHistory)
+  && (state.activeChatId === null || typeof state.activeChatId === 'string');
+
+const migrate = (raw: unknown): StoredChatState | null => {
+  let state = raw;
+  let version = storedVersion(raw);
+
+  while (version !== null && version < STORAGE_VERSION) {
+    const migration = migrations[version];
+    if (!migration) return null;
+    state = migration(state);
+    version = storedVersion(state);
+  }
+
+  if (version !== null && version > STORAGE_VERSION) {
+    console.warn(`Stored chat state version ${version} is newer than supported version ${STORAGE_VERSION}`);
+    return null;
+  }
+
+  return isStoredChatState(state) ? state : null;
+};
+
+const reviveDate = (value: unknown): Date => {
+  const date = typeof value === 'string' || typeof value === 'number' || value instanceof Date
+    ? new Date(value)
+    : new Date(NaN);
+  return isNaN(date.getTime()) ? new Date() : date;
+};
+
+const reviveSource = (value: unknown): MessageSource | null => {
+  if (!isRecord(value)) return null;
+  const { documentId, document, page, snippet } = value;
+  if (typeof document !== 'string') return null;
+
+  return {
+    ...(typeof documentId === 'string' && { documentId }),
+    document,
+    ...(typeof page === 'number' && { page }),
+    snippet: typeof snippet === 'string' ? snippet : '',
+  };
+};
+
+const reviveGeneration = (value: unknown): GenerationSettings | null => {
+  if (!isRecord(value)) return null;
+  const { llmModel, temperature } = value;
+  return typeof llmModel === 'string' && typeof temperature === 'number' ? { llmModel, temperature } : null;
+};
+
+const reviveConversationSettings = (value: unknown): ConversationSettings | null => {
+  if (!isRecord(value)) return null;
+  const { llmModel, asrModel, temperature } = value;
+  return typeof llmModel === 'string' && typeof asrModel === 'string' && typeof temperature === 'number'
+    ? { llmModel, asrModel, temperature }
+    : null;
+};
+
+const compact = <T>(items: (T | null)[]): T[] => items.filter((item): item is T => item !== null);
+
+// Messages without an id, text or sender can't be shown, so they are dropped; unknown fields are left behind
+const reviveMessage = (value: unknown): ChatMessage | null => {
+  if (!isRecord(value)) return null;
+  const { id, text, sender, error, stopped, otherVersions, versionIndex, sources } = value;
+  if (typeof id !== 'string' || !id || typeof text !== 'string' || (sender !== 'user' && sender !== 'bot')) return null;
+  const generation = reviveGeneration(value.generation);
+
+  return {
+    id,
+    text,
+    sender,
+    timestamp: reviveDate(value.timestamp),
+    ...(typeof error === 'string' && { error }),
+    ...(typeof stopped === 'boolean' && { stopped }),
+    ...(Array.isArray(otherVersions) && {
+      otherVersions: otherVersions
+        .filter((version): version is unknown[] => Array.isArray(version))
+        .map(version => compact(version.map(reviveMessage))),
+    }),
+    ...(typeof versionIndex === 'number' && { versionIndex }),
+    ...(Array.isArray(sources) && { sources: compact(sources.map(reviveSource)) }),
+    ...(generation && { generation }),
+  };
+};
+
+// Restores a chat parsed from JSON, with its dates; null when it isn't a chat at all.
+// A missing id comes back empty for the caller to fill in.
+export const reviveChat = (value: unknown): ChatHistoryItem | null => {
+  if (!isRecord(value)) return null;
+  const { id, title, messages, pinned, renamed, autoTitlePending } = value;
+  if (typeof title !== 'string' || !Array.isArray(messages)) return null;
+  const settings = reviveConversationSettings(value.settings);
+
+  return {
+    id: typeof id === 'string' ? id : '',
+    title,
+    timestamp: reviveDate(value.timestamp),
+    messages: compact(messages.map(reviveMessage)),
+    ...(typeof pinned === 'boolean' && { pinned }),
+    ...(typeof renamed === 'boolean' && { renamed }),
+    ...(typeof autoTitlePending === 'boolean' && { autoTitlePending }),
+    ...(settings && { settings }),
+  };
+};
+
+const serialize = (state: PersistedChatState): StoredChatState => ({
+  version: STORAGE_VERSION,
+  // JSON round-trip turns every Date into an ISO string
+  chatHistory: JSON.parse(JSON.stringify(state.chatHistory)),
+  activeChatId: state.activeChatId,
+});
+
+const deserialize = (raw: unknown): LoadedChatState => {
+  if (!raw) return { status: 'empty' };
+
+  const state = migrate(raw);
+  if (!state) return { status: 'unreadable' };
+
+  const chatHistory = compact(state.chatHistory.map(reviveChat)).filter(chat => chat.id);
+  const activeChatId = chatHistory.some(chat => chat.id === state.activeChatId)
+    ? state.activeChatId
+    : chatHistory[0]?.id ?? null;
+
+  return { status: 'loaded', state: { chatHistory, activeChatId } };
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DB_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readFromIndexedDB = async (): Promise<unknown> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(STATE_KEY);
+    request.onsuccess = () => {
+      db.close();
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      db.close();
+      reject(request.error);
+    };
+  });
+};
+
+const writeToIndexedDB = async (value: StoredChatState): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(DB_STORE, 'readwrite');
+    transaction.objectStore(DB_STORE).put(value, STATE_KEY);
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+const hasIndexedDB = () => typeof window !== 'undefined' && !!window.indexedDB;
+
+const readFromLocalStorage = (): unknown => {
+  const raw = window.localStorage.getItem(LOCAL_STORAGE_KEY);
+  return raw ? JSON.parse(raw) : null;
+};
+
+export const loadChatState = async (): Promise<LoadedChatState> => {
+  try {
+    if (hasIndexedDB()) {
+      try {
+        const stored = await readFromIndexedDB();
+        if (stored) return deserialize(stored);
+      } catch (error) {
+        console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+      }
+    }
+    return deserialize(readFromLocalStorage());
+  } catch (error) {
+    console.error('Error loading chat history:', error);
+    return { status: 'unreadable' };
+  }
+};
+
+export const saveChatState = async (state: PersistedChatState): Promise<void> => {
+  const stored = serialize(state);
+
+  try {
+    if (hasIndexedDB()) {
+      try {
+        await writeToIndexedDB(stored);
+        return;
+      } catch (error) {
+        console.warn('IndexedDB unavailable, falling back to localStorage:', error);
+      }
+    }
+    window.localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Error saving chat history:', error);
+  }
+};
+
+// Settings are small and needed before the first render, so they live in localStorage
+export const loadSettings = (): Partial<ChatSettings> | null => {
+  try {
+    const raw = window.localStorage.getItem(SETTINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return null;
+  }
+};
+
+export const saveSettings = (settings: ChatSettings) => {
+  try {
+    window.localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+};
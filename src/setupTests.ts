@@ -0,0 +1,4 @@
+import '@testing-library/jest-dom';
+
+// jsdom doesn't implement scrolling
+window.HTMLElement.prototype.scrollIntoView = jest.fn();
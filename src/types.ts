@@ -1,7 +1,68 @@
+export type TransliterationScheme = 'iast' | 'hk' | 'itrans';
+
+// Where read-aloud audio comes from: the browser's own voices or the backend's /tts endpoint
+export type TtsProviderName = 'browser' | 'server';
+
+// Language hint for speech recognition; 'mixed' expects switching between Sanskrit, Hindi and English
+export type AsrLanguage = 'auto' | 'sa' | 'hi' | 'en' | 'mixed';
+
+// A model the backend offers, as listed by /models
+export interface ModelInfo {
+  id: string;
+  label: string;
+  description: string;
+  contextLength?: number; // In tokens; LLMs only
+  capabilities: string[]; // Short tags such as 'reasoning' or 'streaming'
+}
+
+export interface ModelCatalog {
+  llm: ModelInfo[];
+  asr: ModelInfo[];
+}
+
 export interface ChatSettings {
   llmModel: string;
-  asrModel: 'whisper' | 'conformer' | 'wav2vec2';
+  asrModel: string;
+  asrLanguage: AsrLanguage;
   temperature: number;
+  transliterationScheme: TransliterationScheme; // Romanization used by the composer's Devanagari input mode
+  autoTitle: boolean; // Ask the LLM for a topic title after a chat's first exchange
+  ttsProvider: TtsProviderName;
+  speechRate: number; // Read-aloud speed; 1 is normal
+  microphoneId: string; // Input device for recording; empty for the browser default
+  maxRecordingSeconds: number; // Recording stops by itself after this long
+}
+
+// The settings the backend owns; the rest are preferences of this device and stay in local storage
+export type ServerSettings = Pick<ChatSettings, 'llmModel' | 'asrModel' | 'asrLanguage' | 'temperature'>;
+
+// Settings each conversation keeps for itself; new chats copy the current defaults
+export type ConversationSettings = Pick<ChatSettings, 'llmModel' | 'asrModel' | 'temperature'>;
+
+// What a bot reply was generated with
+export type GenerationSettings = Pick<ChatSettings, 'llmModel' | 'temperature'>;
+
+export interface TranscriptWord {
+  text: string;
+  confidence: number; // 0-1; 1 when the server doesn't report one
+  alternatives: string[]; // Other likely readings of this word, best first
+}
+
+export interface Transcription {
+  transcript: string;
+  words: TranscriptWord[];
+  alternatives: string[]; // Other likely readings of the whole utterance, best first
+}
+
+// Whether the settings on screen are the ones the server last accepted
+export type SettingsSaveStatus = 'applied' | 'unsaved' | 'saving' | 'failed';
+
+// A passage from an uploaded document that a bot reply drew on
+export interface MessageSource {
+  documentId?: string;
+  document: string; // Document name as shown to the user
+  page?: number;
+  snippet: string; // The quoted passage
 }
 
 export interface ChatMessage {
@@ -9,16 +70,59 @@ export interface ChatMessage {
   text: string;
   sender: 'user' | 'bot';
   timestamp: Date;
+  error?: string; // Set on bot turns that failed; rendered as an error bubble
+  stopped?: boolean; // The user cancelled the reply; text holds whatever arrived first
+  otherVersions?: ChatMessage[][]; // Alternative versions of this turn, each with the turns that followed it
+  versionIndex?: number; // Position of this version among all versions of the turn
+  sources?: MessageSource[]; // Passages from uploaded documents the reply is based on
+  generation?: GenerationSettings; // Model and temperature behind a bot reply
 }
 
+// Extra fields ChatInterface attaches to a bot turn when finalizing it
+export type BotMessageDetails = Partial<Pick<ChatMessage, 'error' | 'stopped' | 'sources' | 'generation'>>;
+
 export interface ChatHistoryItem {
   id: string;
   title: string;
   timestamp: Date;
   messages: ChatMessage[];
+  pinned?: boolean;
+  renamed?: boolean; // The user chose this title; auto-titling leaves it alone
+  autoTitlePending?: boolean; // Waiting for the first reply before asking for a topic title
+  settings?: ConversationSettings; // Missing on chats saved before conversations had their own settings
+}
+
+// Identifies the conversation a chat request belongs to, plus the turns before it
+export interface ConversationContext {
+  conversationId: string;
+  history: ChatMessage[];
+  generation?: GenerationSettings; // The server's default settings apply when missing
 }
 
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+// A source text the assistant has indexed and can answer from
+export interface UploadedDocument {
+  id: string;
+  name: string;
+  sizeBytes: number;
+  pageCount: number;
+  uploadedAt: Date;
+  status: 'ready' | 'indexing' | 'failed';
+}
+
+// What the document viewer should show: a document, optionally at a page with a passage to highlight
+export interface DocumentLocation {
+  documentId: string;
+  name: string;
+  page?: number;
+  highlight?: string;
+}
+
+export type MicrophoneErrorKind = 'permission' | 'no-device' | 'device-unavailable' | 'busy' | 'unsupported' | 'unknown';
+
 export interface VoiceRecordingState {
   isRecording: boolean;
   error: string | null;
+  errorKind?: MicrophoneErrorKind; // Set when the microphone itself failed, so the error can offer a fix
 } 
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { detectAudioFormat, downmixToMono, prepareForTranscription, samplesToWav, trimSilence } from './audio';
+
+const createBuffer = (channels: number[][], sampleRate = 16000): AudioBuffer => ({
+  numberOfChannels: channels.length,
+  length: channels[0].length,
+  sampleRate,
+  duration: channels[0].length / sampleRate,
+  getChannelData: (channel: number) => Float32Array.from(channels[channel]),
+} as unknown as AudioBuffer);
+
+const readBlob = (blob: Blob): Promise<DataView> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(new DataView(reader.result as ArrayBuffer));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsArrayBuffer(blob);
+});
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+describe('samplesToWav', () => {
+  it('writes a 16-bit PCM RIFF header', async () => {
+    const blob = samplesToWav(new Float32Array(4), 16000);
+    const view = await readBlob(blob);
+
+    expect(blob.type).toBe('audio/wav');
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 8);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(1); // mono
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000); // byte rate
+    expect(view.getUint16(32, true)).toBe(2); // block align
+    expect(view.getUint16(34, true)).toBe(16); // bits per sample
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(view.byteLength).toBe(44 + 8);
+  });
+
+  it('scales samples to 16-bit and clamps out-of-range values', async () => {
+    const view = await readBlob(samplesToWav(Float32Array.from([0, 1, -1, 2, -2, 0.5]), 16000));
+
+    expect(view.getInt16(44, true)).toBe(0);
+    expect(view.getInt16(46, true)).toBe(0x7FFF);
+    expect(view.getInt16(48, true)).toBe(-0x8000);
+    expect(view.getInt16(50, true)).toBe(0x7FFF);
+    expect(view.getInt16(52, true)).toBe(-0x8000);
+    expect(view.getInt16(54, true)).toBe(Math.trunc(0.5 * 0x7FFF));
+  });
+});
+
+const bytes = (...values: (number | string)[]) => Uint8Array.from(values.reduce<number[]>((all, value) => (
+  all.concat(typeof value === 'string' ? value.split('').map(char => char.charCodeAt(0)) : [value])
+), []));
+
+describe('detectAudioFormat', () => {
+  it('recognizes containers from their signature', () => {
+    expect(detectAudioFormat(bytes('RIFF', 0, 0, 0, 0, 'WAVE'))).toBe('wav');
+    expect(detectAudioFormat(bytes(0x1A, 0x45, 0xDF, 0xA3))).toBe('webm');
+    expect(detectAudioFormat(bytes('OggS'))).toBe('ogg');
+    expect(detectAudioFormat(bytes('ID3', 4))).toBe('mp3');
+    expect(detectAudioFormat(bytes(0xFF, 0xFB))).toBe('mp3');
+    expect(detectAudioFormat(bytes(0, 0, 0, 0x20, 'ftypM4A '))).toBe('mp4');
+  });
+
+  it('trusts the signature over a wrong label', () => {
+    expect(detectAudioFormat(bytes('OggS'), 'audio/wav')).toBe('ogg');
+  });
+
+  it('falls back to the MIME type, ignoring codec parameters', () => {
+    expect(detectAudioFormat(bytes('????'), 'audio/webm;codecs=opus')).toBe('webm');
+    expect(detectAudioFormat(bytes('????'), 'text/plain')).toBeNull();
+  });
+});
+
+describe('downmixToMono', () => {
+  it('averages the channels', () => {
+    expect(Array.from(downmixToMono([Float32Array.from([1, 0.5]), Float32Array.from([0, -0.5])]))).toEqual([0.5, 0]);
+  });
+});
+
+describe('trimSilence', () => {
+  const options = { threshold: 0.1, windowMs: 1, paddingMs: 1 };
+
+  it('drops quiet windows at both ends and keeps some padding', () => {
+    // 1000 Hz: one-sample windows and one sample of padding
+    const samples = Float32Array.from([0, 0, 0, 0.5, -0.5, 0, 0.5, 0, 0, 0]);
+
+    expect(Array.from(trimSilence(samples, 1000, options))).toEqual([0, 0.5, -0.5, 0, 0.5, 0]);
+  });
+
+  it('returns nothing for silence', () => {
+    expect(trimSilence(new Float32Array(10), 1000, options)).toHaveLength(0);
+  });
+});
+
+describe('prepareForTranscription', () => {
+  const installDecoder = (decoded: AudioBuffer) => {
+    Object.assign(window, {
+      AudioContext: jest.fn(() => ({
+        decodeAudioData: jest.fn().mockResolvedValue(decoded),
+        close: jest.fn().mockResolvedValue(undefined),
+      })),
+    });
+  };
+
+  it('produces trimmed mono 16 kHz WAV from a stereo recording', async () => {
+    const speech = Array.from({ length: 1600 }, (_, i) => (i % 2 ? 0.5 : -0.5));
+    const silence = new Array(16000).fill(0);
+    installDecoder(createBuffer([silence.concat(speech, silence), silence.concat(speech, silence)]));
+
+    const wav = await prepareForTranscription(new Blob([bytes('OggS', 0)], { type: 'audio/wav' }));
+    const view = await readBlob(wav);
+
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    // The speech plus 150 ms of padding either side
+    expect(view.getUint32(40, true)).toBe((1600 + 2 * 2400) * 2);
+  });
+
+  it('rejects unknown formats and silent audio', async () => {
+    installDecoder(createBuffer([new Array(1600).fill(0)]));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(prepareForTranscription(new Blob(['hello'], { type: 'text/plain' })))
+      .rejects.toThrow('Unsupported audio format');
+    await expect(prepareForTranscription(new Blob([bytes('ID3', 0)])))
+      .rejects.toThrow('No speech was detected');
+  });
+});
@@ -0,0 +1,194 @@
+// Helper function to write string to DataView
+const writeString = (dataView: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    dataView.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+// Encode mono samples as 16-bit PCM WAV
+export const samplesToWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataLength = samples.length * 2;
+  const wavDataView = new DataView(new ArrayBuffer(44 + dataLength));
+
+  // WAV header
+  writeString(wavDataView, 0, 'RIFF');
+  wavDataView.setUint32(4, 36 + dataLength, true);
+  writeString(wavDataView, 8, 'WAVE');
+  writeString(wavDataView, 12, 'fmt ');
+  wavDataView.setUint32(16, 16, true);
+  wavDataView.setUint16(20, 1, true);
+  wavDataView.setUint16(22, 1, true);
+  wavDataView.setUint32(24, sampleRate, true);
+  wavDataView.setUint32(28, sampleRate * 2, true);
+  wavDataView.setUint16(32, 2, true);
+  wavDataView.setUint16(34, 16, true);
+  writeString(wavDataView, 36, 'data');
+  wavDataView.setUint32(40, dataLength, true);
+
+  // Write audio data
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    wavDataView.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+    offset += 2;
+  }
+
+  return new Blob([wavDataView], { type: 'audio/wav' });
+};
+
+export type AudioFormat = 'wav' | 'webm' | 'ogg' | 'mp3' | 'mp4' | 'flac';
+
+const MIME_FORMATS: Record<string, AudioFormat> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'mp4',
+  'audio/x-m4a': 'mp4',
+  'audio/aac': 'mp4',
+  'audio/flac': 'flac',
+};
+
+// Offered by the "transcribe a file" picker; extensions cover systems that report no MIME type
+export const ACCEPTED_AUDIO_FILES = 'audio/wav,audio/x-wav,audio/mpeg,audio/mp4,audio/x-m4a,.wav,.mp3,.m4a';
+
+const startsWith = (bytes: Uint8Array, signature: string, offset = 0) =>
+  bytes.length >= offset + signature.length
+  && signature.split('').every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+
+// Identifies the container from its leading bytes; recorders often mislabel what they produce
+export const detectAudioFormat = (bytes: Uint8Array, mimeType = ''): AudioFormat | null => {
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WAVE', 8)) return 'wav';
+  if (bytes[0] === 0x1A && bytes[1] === 0x45 && bytes[2] === 0xDF && bytes[3] === 0xA3) return 'webm';
+  if (startsWith(bytes, 'OggS')) return 'ogg';
+  if (startsWith(bytes, 'fLaC')) return 'flac';
+  if (startsWith(bytes, 'ftyp', 4)) return 'mp4';
+  if (startsWith(bytes, 'ID3') || (bytes[0] === 0xFF && (bytes[1] & 0xE0) === 0xE0)) return 'mp3';
+
+  return MIME_FORMATS[mimeType.split(';')[0].trim().toLowerCase()] ?? null;
+};
+
+// Averages all channels; ASR models expect a single channel
+export const downmixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+
+  const length = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    for (let j = 0; j < channels.length; j++) {
+      sum += channels[j][i];
+    }
+    mono[i] = sum / channels.length;
+  }
+  return mono;
+};
+
+export interface TrimOptions {
+  threshold: number; // RMS level (0-1) below which a window counts as silence
+  windowMs: number;
+  paddingMs: number; // Kept around the speech so word onsets aren't clipped
+}
+
+export const DEFAULT_TRIM_OPTIONS: TrimOptions = {
+  threshold: 0.01,
+  windowMs: 20,
+  paddingMs: 150,
+};
+
+// Drops leading and trailing silence; returns an empty array when nothing is above the threshold
+export const trimSilence = (
+  samples: Float32Array,
+  sampleRate: number,
+  options: TrimOptions = DEFAULT_TRIM_OPTIONS
+): Float32Array => {
+  const windowSize = Math.max(1, Math.round((sampleRate * options.windowMs) / 1000));
+  let first = -1;
+  let last = -1;
+
+  for (let start = 0; start < samples.length; start += windowSize) {
+    const end = Math.min(samples.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    if (Math.sqrt(sum / (end - start)) >= options.threshold) {
+      if (first === -1) first = start;
+      last = end;
+    }
+  }
+
+  if (first === -1) return samples.subarray(0, 0);
+
+  const padding = Math.round((sampleRate * options.paddingMs) / 1000);
+  return samples.subarray(Math.max(0, first - padding), Math.min(samples.length, last + padding));
+};
+
+const readArrayBuffer = (blob: Blob): Promise<ArrayBuffer> => new Promise((resolve, reject) => {
+  const fileReader = new FileReader();
+  fileReader.onload = () => resolve(fileReader.result as ArrayBuffer);
+  fileReader.onerror = () => reject(new Error('Error reading file'));
+  fileReader.readAsArrayBuffer(blob);
+});
+
+const decodeAudio = async (arrayBuffer: ArrayBuffer): Promise<AudioBuffer> => {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close().catch(() => {
+      // Already closed
+    });
+  }
+};
+
+const resampleMono = async (samples: Float32Array, sampleRate: number, targetSampleRate: number): Promise<Float32Array> => {
+  if (sampleRate === targetSampleRate) return samples;
+
+  const offlineContext = new OfflineAudioContext(
+    1,
+    Math.max(1, Math.ceil((samples.length * targetSampleRate) / sampleRate)),
+    targetSampleRate
+  );
+  const buffer = offlineContext.createBuffer(1, samples.length, sampleRate);
+  buffer.getChannelData(0).set(samples);
+
+  const source = offlineContext.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offlineContext.destination);
+  source.start(0);
+
+  const rendered = await offlineContext.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// Turns a recording or an uploaded file into trimmed mono 16-bit WAV at the ASR sample rate
+export const prepareForTranscription = async (audio: Blob, targetSampleRate = 16000): Promise<Blob> => {
+  const arrayBuffer = await readArrayBuffer(audio);
+  if (!detectAudioFormat(new Uint8Array(arrayBuffer, 0, Math.min(12, arrayBuffer.byteLength)), audio.type)) {
+    throw new Error('Unsupported audio format. Use a WAV, MP3 or M4A file.');
+  }
+
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeAudio(arrayBuffer);
+  } catch (error) {
+    console.error('Error decoding audio:', error);
+    throw new Error('The audio could not be decoded');
+  }
+
+  const channels = [];
+  for (let i = 0; i < decoded.numberOfChannels; i++) {
+    channels.push(decoded.getChannelData(i));
+  }
+  const mono = await resampleMono(downmixToMono(channels), decoded.sampleRate, targetSampleRate);
+
+  const speech = trimSilence(mono, targetSampleRate);
+  if (speech.length === 0) {
+    throw new Error('No speech was detected in the audio');
+  }
+  return samplesToWav(speech, targetSampleRate);
+};
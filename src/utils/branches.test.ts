@@ -0,0 +1,59 @@
+import { addVersion, getVersionCount, switchVersion, updateMessage } from './branches';
+import { ChatMessage } from '../types';
+
+const message = (id: string, sender: 'user' | 'bot' = 'user'): ChatMessage => ({
+  id,
+  text: `text ${id}`,
+  sender,
+  timestamp: new Date(0),
+});
+
+const ids = (messages: ChatMessage[]) => messages.map(m => m.id);
+
+describe('branches', () => {
+  const conversation = [message('q1'), message('a1', 'bot'), message('q2'), message('a2', 'bot')];
+
+  it('adds a version and keeps the old turns reachable', () => {
+    const edited = addVersion(conversation, 'q2', [message('q2b')]);
+
+    expect(ids(edited)).toEqual(['q1', 'a1', 'q2b']);
+    expect(getVersionCount(edited[2])).toBe(2);
+    expect(edited[2].versionIndex).toBe(1);
+    expect(edited[2].otherVersions?.map(ids)).toEqual([['q2', 'a2']]);
+  });
+
+  it('switches between versions in order', () => {
+    const edited = addVersion(conversation, 'q2', [message('q2b'), message('a2b', 'bot')]);
+    const third = addVersion(edited, 'q2b', [message('q2c')]);
+
+    const first = switchVersion(third, 'q2c', 0);
+    expect(ids(first)).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(first[2].versionIndex).toBe(0);
+    expect(getVersionCount(first[2])).toBe(3);
+
+    const second = switchVersion(first, 'q2', 1);
+    expect(ids(second)).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(second[2].otherVersions?.map(ids)).toEqual([['q2', 'a2'], ['q2c']]);
+  });
+
+  it('keeps nested forks inside the version they belong to', () => {
+    const regenerated = addVersion(conversation, 'a2', [message('a2b', 'bot')]);
+    const edited = addVersion(regenerated, 'q1', [message('q1b')]);
+    const restored = switchVersion(edited, 'q1b', 0);
+
+    expect(ids(restored)).toEqual(['q1', 'a1', 'q2', 'a2b']);
+    expect(restored[3].otherVersions?.map(ids)).toEqual([['a2']]);
+  });
+
+  it('ignores unknown messages and out-of-range versions', () => {
+    expect(addVersion(conversation, 'missing', [message('x')])).toBe(conversation);
+    expect(switchVersion(conversation, 'q2', 3)).toBe(conversation);
+  });
+
+  it('updates a single message', () => {
+    const updated = updateMessage(conversation, 'a1', { text: 'new answer' });
+
+    expect(updated[1].text).toBe('new answer');
+    expect(updated[0]).toBe(conversation[0]);
+  });
+});
@@ -0,0 +1,63 @@
+import { ChatMessage } from '../types';
+
+// A conversation's `messages` is always its active path. Where the conversation forked,
+// the first message of the active version carries the other versions of that turn, each
+// stored with the turns that followed it, plus its own position among all versions.
+
+const stripVersions = ({ otherVersions, versionIndex, ...message }: ChatMessage): ChatMessage => message;
+
+export const getVersionCount = (message: ChatMessage): number =>
+  (message.otherVersions?.length ?? 0) + 1;
+
+// Every version of the turn at `index`, in order, each with the turns that followed it
+const getAllVersions = (messages: ChatMessage[], index: number): ChatMessage[][] => {
+  const head = messages[index];
+  const others = head.otherVersions ?? [];
+  const position = head.versionIndex ?? 0;
+  const activeTail = [stripVersions(head), ...messages.slice(index + 1)];
+
+  return [...others.slice(0, position), activeTail, ...others.slice(position)];
+};
+
+const activateVersion = (
+  messages: ChatMessage[],
+  index: number,
+  versions: ChatMessage[][],
+  target: number
+): ChatMessage[] => {
+  const [head, ...rest] = versions[target];
+  const others = versions.filter((_, i) => i !== target);
+
+  return [
+    ...messages.slice(0, index),
+    others.length > 0 ? { ...head, otherVersions: others, versionIndex: target } : head,
+    ...rest,
+  ];
+};
+
+// Starts a new version of the turn at `messageId`; the current version and its follow-ups are kept
+export const addVersion = (messages: ChatMessage[], messageId: string, newTail: ChatMessage[]): ChatMessage[] => {
+  const index = messages.findIndex(message => message.id === messageId);
+  if (index === -1 || newTail.length === 0) return messages;
+
+  const versions = [...getAllVersions(messages, index), newTail];
+  return activateVersion(messages, index, versions, versions.length - 1);
+};
+
+export const switchVersion = (messages: ChatMessage[], messageId: string, target: number): ChatMessage[] => {
+  const index = messages.findIndex(message => message.id === messageId);
+  if (index === -1) return messages;
+
+  const versions = getAllVersions(messages, index);
+  if (target < 0 || target >= versions.length) return messages;
+
+  return activateVersion(messages, index, versions, target);
+};
+
+export const updateMessage = (
+  messages: ChatMessage[],
+  messageId: string,
+  updates: Partial<ChatMessage>
+): ChatMessage[] => messages.map(message =>
+  message.id === messageId ? { ...message, ...updates } : message
+);
@@ -0,0 +1,65 @@
+import { findSnippet, groupChatsByDate, searchChats } from './chatSearch';
+import { ChatHistoryItem } from '../types';
+
+const chat = (id: string, title: string, texts: string[], timestamp = new Date()): ChatHistoryItem => ({
+  id,
+  title,
+  timestamp,
+  messages: texts.map((text, index) => ({
+    id: `${id}-${index}`,
+    text,
+    sender: index % 2 === 0 ? 'user' : 'bot',
+    timestamp,
+  })),
+});
+
+describe('chatSearch', () => {
+  it('cuts a snippet around the match, keeping the original case', () => {
+    const text = 'The Charaka Samhita describes ojas as the essence of all seven dhatus in the body.';
+
+    expect(findSnippet(text, 'OJAS', 10)).toEqual({
+      before: '…describes ',
+      match: 'ojas',
+      after: ' as the essence of a…',
+    });
+    expect(findSnippet(text, 'kapha')).toBeNull();
+  });
+
+  it('matches message text and titles, skipping markdown syntax and failed replies', () => {
+    const chats = [
+      chat('a', 'Sutra study', ['Recite the first sutra', '**Yoga** is the *stilling* of the mind']),
+      chat('b', 'Yoga sutras', ['Unrelated question']),
+      chat('c', 'Errors', ['Yoga?']),
+    ];
+    chats[2].messages[0].error = 'Failed';
+
+    const results = searchChats(chats, 'yoga is');
+    expect(results).toEqual([
+      expect.objectContaining({ chatId: 'a', messageId: 'a-1', snippet: expect.objectContaining({ match: 'Yoga is' }) }),
+    ]);
+
+    const titleOnly = searchChats(chats, 'sutras');
+    expect(titleOnly).toEqual([
+      { chatId: 'b', title: { before: 'Yoga ', match: 'sutras', after: '' } },
+    ]);
+  });
+
+  it('groups chats by last activity, newest first', () => {
+    const now = new Date(2024, 5, 15, 12);
+    const chats = [
+      chat('old', 'Old', [], new Date(2024, 4, 1)),
+      chat('morning', 'Morning', [], new Date(2024, 5, 15, 8)),
+      chat('yesterday', 'Yesterday', [], new Date(2024, 5, 14, 23)),
+      chat('week', 'Week', [], new Date(2024, 5, 9)),
+      chat('noon', 'Noon', [], new Date(2024, 5, 15, 11)),
+    ];
+
+    const groups = groupChatsByDate(chats, now);
+    expect(groups.map(group => [group.label, group.chats.map(c => c.id)])).toEqual([
+      ['Today', ['noon', 'morning']],
+      ['Yesterday', ['yesterday']],
+      ['Previous 7 days', ['week']],
+      ['Older', ['old']],
+    ]);
+  });
+});
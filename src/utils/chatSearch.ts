@@ -0,0 +1,113 @@
+import { ChatHistoryItem } from '../types';
+
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  messageId?: string; // Absent when only the title matched
+  title: SearchSnippet | string;
+  snippet?: SearchSnippet;
+}
+
+export type DateGroupLabel = 'Today' | 'Yesterday' | 'Previous 7 days' | 'Older';
+
+export interface ChatDateGroup<T> {
+  label: DateGroupLabel;
+  chats: T[];
+}
+
+const MAX_MATCHES_PER_CHAT = 3;
+const MAX_RESULTS = 50;
+const SNIPPET_CONTEXT = 30;
+
+const normalize = (text: string) => text.normalize('NFC').toLowerCase();
+
+// Bot replies are markdown; drop the syntax so snippets read as plain text
+const toPlainText = (text: string) => text
+  .replace(/[*_`#>~]/g, '')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Cuts the text around the first match, or returns null when the query isn't in it
+export const findSnippet = (text: string, query: string, context = SNIPPET_CONTEXT): SearchSnippet | null => {
+  const needle = normalize(query.trim());
+  if (!needle) return null;
+
+  const source = text.normalize('NFC');
+  const index = normalize(source).indexOf(needle);
+  if (index === -1) return null;
+
+  const start = Math.max(0, index - context);
+  const end = Math.min(source.length, index + needle.length + context * 2);
+
+  return {
+    before: (start > 0 ? '…' : '') + source.slice(start, index),
+    match: source.slice(index, index + needle.length),
+    after: source.slice(index + needle.length, end) + (end < source.length ? '…' : ''),
+  };
+};
+
+// Matches titles and message text across every conversation's active path
+export const searchChats = (chats: ChatHistoryItem[], query: string): ChatSearchResult[] => {
+  if (!query.trim()) return [];
+
+  const results: ChatSearchResult[] = [];
+
+  for (const chat of chats) {
+    const title = findSnippet(chat.title, query, chat.title.length) ?? chat.title;
+
+    const messageResults = chat.messages
+      .filter(message => !message.error)
+      .map(message => ({ message, snippet: findSnippet(toPlainText(message.text), query) }))
+      .filter(({ snippet }) => snippet !== null)
+      .slice(0, MAX_MATCHES_PER_CHAT)
+      .map(({ message, snippet }) => ({
+        chatId: chat.id,
+        messageId: message.id,
+        title,
+        snippet: snippet as SearchSnippet,
+      }));
+
+    if (messageResults.length > 0) {
+      results.push(...messageResults);
+    } else if (typeof title !== 'string') {
+      results.push({ chatId: chat.id, title });
+    }
+
+    if (results.length >= MAX_RESULTS) break;
+  }
+
+  return results.slice(0, MAX_RESULTS);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateGroupFor = (timestamp: Date, now: Date): DateGroupLabel => {
+  // Round so a daylight saving shift doesn't turn one day into 0.96 of a day
+  const daysAgo = Math.round((startOfDay(now) - startOfDay(timestamp)) / DAY_MS);
+
+  if (daysAgo <= 0) return 'Today';
+  if (daysAgo === 1) return 'Yesterday';
+  if (daysAgo <= 7) return 'Previous 7 days';
+  return 'Older';
+};
+
+const GROUP_ORDER: DateGroupLabel[] = ['Today', 'Yesterday', 'Previous 7 days', 'Older'];
+
+// Groups chats by last activity, newest first; empty groups are left out
+export const groupChatsByDate = <T extends { timestamp: Date }>(chats: T[], now = new Date()): ChatDateGroup<T>[] => {
+  const sorted = [...chats].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+  return GROUP_ORDER
+    .map(label => ({
+      label,
+      chats: sorted.filter(chat => dateGroupFor(new Date(chat.timestamp), now) === label),
+    }))
+    .filter(group => group.chats.length > 0);
+};
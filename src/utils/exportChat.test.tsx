@@ -0,0 +1,86 @@
+import { chatToHtml, chatToJson, chatToMarkdown, parseImportedChats } from './exportChat';
+import { ChatHistoryItem } from '../types';
+
+const chat: ChatHistoryItem = {
+  id: 'chat-1',
+  title: 'What is <ojas>?',
+  timestamp: new Date('2024-03-01T10:00:00Z'),
+  messages: [
+    { id: 'q1', text: 'What is ojas?\nExplain briefly.', sender: 'user', timestamp: new Date('2024-03-01T10:00:00Z') },
+    { id: 'a1', text: '**ओजस्** is the essence of the dhātus.', sender: 'bot', timestamp: new Date('2024-03-01T10:00:05Z') },
+    { id: 'q2', text: 'And tejas?', sender: 'user', timestamp: new Date('2024-03-01T10:01:00Z') },
+    { id: 'a2', text: '', sender: 'bot', timestamp: new Date('2024-03-01T10:01:05Z'), error: 'Request timed out' },
+  ],
+};
+
+describe('exportChat', () => {
+  it('exports markdown with quoted questions and skips failed replies', () => {
+    const markdown = chatToMarkdown(chat);
+
+    expect(markdown).toMatch(/^# What is <ojas>\?/);
+    expect(markdown).toContain('> What is ojas?\n> Explain briefly.');
+    expect(markdown).toContain('**ओजस्** is the essence of the dhātus.');
+    expect(markdown).not.toContain('Request timed out');
+  });
+
+  it('escapes user text in the printable page', () => {
+    const html = chatToHtml(chat);
+
+    expect(html).toContain('<title>What is &lt;ojas&gt;?</title>');
+    expect(html).toContain('What is ojas?<br>Explain briefly.');
+    expect(html).toContain('Noto+Serif+Devanagari');
+  });
+
+  it('round-trips a JSON export with dates restored', () => {
+    const [imported] = parseImportedChats(chatToJson(chat), []);
+
+    expect(imported.id).toBe('chat-1');
+    expect(imported.timestamp).toBeInstanceOf(Date);
+    expect(imported.messages[1].timestamp.getTime()).toBe(chat.messages[1].timestamp.getTime());
+    expect(imported.messages).toHaveLength(4);
+  });
+
+  it('gives imported chats fresh ids when they collide', () => {
+    const json = JSON.stringify([chat, { ...chat, title: 'Copy' }]);
+    const imported = parseImportedChats(json, ['chat-1']);
+
+    expect(imported).toHaveLength(2);
+    expect(imported[0].id).not.toBe('chat-1');
+    expect(imported[1].id).not.toBe('chat-1');
+    expect(imported[0].id).not.toBe(imported[1].id);
+  });
+
+  it('rejects files that are not exported conversations', () => {
+    expect(() => parseImportedChats('not json', [])).toThrow('not valid JSON');
+    expect(() => parseImportedChats('{"foo": 1}', [])).toThrow('does not contain exported conversations');
+  });
+
+  it('leaves out malformed messages and unknown fields when importing', () => {
+    const json = JSON.stringify({
+      format: 'ayurveda-guru-chat',
+      version: 1,
+      chats: [{
+        id: 'imported',
+        title: 'Pasted by hand',
+        timestamp: '2024-03-01T08:00:00Z',
+        autoTitlePending: 'later',
+        settings: 'fast',
+        script: '<b>hi</b>',
+        messages: [
+          { id: 'm1', text: 'What is ojas?', sender: 'user', timestamp: '2024-03-01T08:00:00Z' },
+          { id: 'm2', sender: 'bot' },
+          { id: 'm3', text: { html: 'x' }, sender: 'bot' },
+          { id: 'm4', text: 'Who said this?', sender: 'narrator' },
+          'text',
+        ],
+      }],
+    });
+
+    const [imported] = parseImportedChats(json, []);
+
+    expect(Object.keys(imported).sort()).toEqual(['id', 'messages', 'timestamp', 'title']);
+    expect(imported.messages).toEqual([
+      { id: 'm1', text: 'What is ojas?', sender: 'user', timestamp: new Date('2024-03-01T08:00:00Z') },
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChatHistoryItem, ChatMessage, ExportFormat } from '../types';
+import { reviveChat } from '../services/storage';
+
+const EXPORT_FORMAT_ID = 'ayurveda-guru-chat';
+const EXPORT_VERSION = 1;
+
+const BOT_NAME = 'आयुर्वेद Guru';
+
+// Exported files only include turns that actually happened on the active path
+const exportableMessages = (chat: ChatHistoryItem): ChatMessage[] =>
+  chat.messages.filter(message => !message.error);
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const safeFileName = (title: string) =>
+  (title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'chat').slice(0, 60);
+
+export const chatToMarkdown = (chat: ChatHistoryItem): string => {
+  const turns = exportableMessages(chat).map((message) => {
+    const speaker = message.sender === 'user' ? 'You' : BOT_NAME;
+    const time = message.timestamp.toLocaleString();
+    // User text is plain, so quote it; bot replies are already markdown
+    const body = message.sender === 'user'
+      ? message.text.split('\n').map(line => `> ${line}`).join('\n')
+      : message.text;
+    return `### ${speaker} · ${time}\n\n${body}`;
+  });
+
+  return [
+    `# ${chat.title}`,
+    `_Exported from ${BOT_NAME} on ${new Date().toLocaleString()}_`,
+    ...turns,
+  ].join('\n\n') + '\n';
+};
+
+export const chatToJson = (chat: ChatHistoryItem): string => JSON.stringify({
+  format: EXPORT_FORMAT_ID,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  chats: [chat],
+}, null, 2);
+
+// Standalone page with Devanagari-capable fonts, ready for the browser's "Save as PDF"
+export const chatToHtml = (chat: ChatHistoryItem): string => {
+  const turns = exportableMessages(chat).map((message) => {
+    const body = message.sender === 'user'
+      ? `<p>${escapeHtml(message.text).replace(/\n/g, '<br>')}</p>`
+      : renderToStaticMarkup(<ReactMarkdown remarkPlugins={[remarkGfm]}>{message.text}</ReactMarkdown>);
+    return `
+    <section class="turn ${message.sender}">
+      <div class="speaker">${message.sender === 'user' ? 'You' : BOT_NAME} · ${escapeHtml(message.timestamp.toLocaleString())}</div>
+      <div class="body">${body}</div>
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="sa">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(chat.title)}</title>
+  <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Noto+Serif+Devanagari:wght@400;700&family=Noto+Serif:ital,wght@0,400;0,700;1,400&display=swap">
+  <style>
+    @page { margin: 2cm; }
+    body {
+      font-family: 'Noto Serif', 'Noto Serif Devanagari', 'Sanskrit 2003', 'Siddhanta', 'Mangal', serif;
+      color: #2F4F4F;
+      line-height: 1.6;
+      max-width: 46em;
+      margin: 0 auto;
+      padding: 1em;
+    }
+    h1 { color: #8B4513; font-weight: normal; border-bottom: 1px solid #D2B48C; padding-bottom: 0.3em; }
+    .meta { font-style: italic; font-size: 0.85em; margin-bottom: 2em; }
+    .turn { margin: 1.2em 0; padding: 0.8em 1em; border-radius: 6px; page-break-inside: avoid; }
+    .turn.user { background: #FDF5E6; border-left: 4px solid #8B4513; }
+    .turn.bot { background: #FFF8DC; border-left: 4px solid #DAA520; }
+    .speaker { font-size: 0.8em; font-weight: bold; color: #8B4513; margin-bottom: 0.3em; }
+    .body p { margin: 0.4em 0; }
+    blockquote { border-left: 3px solid #D2B48C; margin: 0.5em 0; padding: 0 1em; font-style: italic; }
+    code, pre { font-family: monospace; background: rgba(0, 0, 0, 0.05); }
+    pre { padding: 0.5em; white-space: pre-wrap; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #D2B48C; padding: 0.3em 0.6em; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(chat.title)}</h1>
+  <div class="meta">Exported from ${BOT_NAME} on ${escapeHtml(new Date().toLocaleString())}</div>${turns}
+</body>
+</html>
+`;
+};
+
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const printHtml = (html: string) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups to print or save as PDF');
+  }
+  // Wait for the web fonts to load so Devanagari isn't printed with a fallback face
+  printWindow.onload = () => printWindow.print();
+  printWindow.document.write(html);
+  printWindow.document.close();
+};
+
+export const exportChat = (chat: ChatHistoryItem, format: ExportFormat) => {
+  const fileName = safeFileName(chat.title);
+
+  switch (format) {
+    case 'markdown':
+      downloadFile(chatToMarkdown(chat), `${fileName}.md`, 'text/markdown;charset=utf-8');
+      break;
+    case 'json':
+      downloadFile(chatToJson(chat), `${fileName}.json`, 'application/json;charset=utf-8');
+      break;
+    case 'pdf':
+      printHtml(chatToHtml(chat));
+      break;
+  }
+};
+
+// Accept our export envelope, a bare array of chats, or a single chat
+const unwrapChats = (data: unknown): unknown[] | null => {
+  if (Array.isArray(data)) return data;
+  if (typeof data !== 'object' || data === null) return null;
+  if ((data as { format?: unknown }).format !== EXPORT_FORMAT_ID) return [data];
+  const { chats } = data as { chats?: unknown };
+  return Array.isArray(chats) ? chats : null;
+};
+
+// Parses an exported JSON file; chats whose IDs are already taken get fresh ones.
+// Messages that can't be shown and fields we don't know are left out.
+export const parseImportedChats = (text: string, existingIds: string[]): ChatHistoryItem[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const rawChats = unwrapChats(data) ?? [];
+  const chats = rawChats.map(reviveChat).filter((chat): chat is ChatHistoryItem => chat !== null);
+  if (chats.length === 0 || chats.length < rawChats.length) {
+    throw new Error('The file does not contain exported conversations');
+  }
+
+  const takenIds = new Set(existingIds);
+  return chats.map((chat, index) => {
+    let id = chat.id || `${Date.now()}-${index}`;
+    while (takenIds.has(id)) {
+      id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    }
+    takenIds.add(id);
+    return { ...chat, id };
+  });
+};
@@ -0,0 +1,13 @@
+const SIZE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+// Human-readable file size, e.g. 4718592 -> "4.5 MB"
+export const formatFileSize = (bytes: number): string => {
+  let value = Math.max(0, bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < SIZE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const digits = unit === 0 || value >= 10 ? 0 : 1;
+  return `${value.toFixed(digits)} ${SIZE_UNITS[unit]}`;
+};
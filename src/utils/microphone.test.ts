@@ -0,0 +1,44 @@
+import { describeMicrophoneError, listMicrophones } from './microphone';
+
+const setDevices = (devices: Partial<MediaDeviceInfo>[]) => {
+  Object.defineProperty(navigator, 'mediaDevices', {
+    configurable: true,
+    value: { enumerateDevices: jest.fn().mockResolvedValue(devices) },
+  });
+};
+
+describe('listMicrophones', () => {
+  it('lists audio inputs without the default alias and fills in missing labels', async () => {
+    setDevices([
+      { kind: 'audioinput', deviceId: 'default', label: 'Default - Built-in' },
+      { kind: 'audioinput', deviceId: 'built-in', label: 'Built-in Microphone' },
+      { kind: 'videoinput', deviceId: 'camera', label: 'FaceTime Camera' },
+      { kind: 'audioinput', deviceId: 'usb', label: '' },
+    ]);
+
+    expect(await listMicrophones()).toEqual([
+      { deviceId: 'built-in', label: 'Built-in Microphone' },
+      { deviceId: 'usb', label: 'Microphone 2' },
+    ]);
+  });
+
+  it('returns nothing when device listing is unavailable', async () => {
+    Object.defineProperty(navigator, 'mediaDevices', { configurable: true, value: undefined });
+
+    expect(await listMicrophones()).toEqual([]);
+  });
+});
+
+describe('describeMicrophoneError', () => {
+  it('maps browser errors to actionable kinds', () => {
+    expect(describeMicrophoneError(new DOMException('denied', 'NotAllowedError')).kind).toBe('permission');
+    expect(describeMicrophoneError(new DOMException('none', 'NotFoundError')).kind).toBe('no-device');
+    expect(describeMicrophoneError(new DOMException('gone', 'OverconstrainedError')).kind).toBe('device-unavailable');
+    expect(describeMicrophoneError(new DOMException('in use', 'NotReadableError')).kind).toBe('busy');
+    expect(describeMicrophoneError(new DOMException('http', 'NotSupportedError')).kind).toBe('unsupported');
+  });
+
+  it('falls back to a generic message', () => {
+    expect(describeMicrophoneError(new Error('boom'))).toEqual({ kind: 'unknown', message: 'Recording could not be started.' });
+  });
+});
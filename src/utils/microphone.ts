@@ -0,0 +1,90 @@
+import { MicrophoneErrorKind } from '../types';
+
+// Microphone access: opening a chosen input, listing inputs, live levels and readable errors
+
+export interface MicrophoneError {
+  kind: MicrophoneErrorKind;
+  message: string;
+}
+
+export interface MicrophoneOption {
+  deviceId: string;
+  label: string;
+}
+
+// Sample on a timer; animation frames pause in background tabs, which would stall voice detection
+const FRAME_MS = 50;
+
+export const isRecordingSupported = () =>
+  Boolean(navigator.mediaDevices?.getUserMedia) && typeof MediaRecorder !== 'undefined';
+
+// An empty deviceId means the browser's default input
+export const openMicrophone = (deviceId: string) => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    // Browsers hide mediaDevices outside secure contexts
+    throw new DOMException('Microphone access is unavailable', 'NotSupportedError');
+  }
+  return navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+  });
+};
+
+export const listMicrophones = async (): Promise<MicrophoneOption[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // Labels stay empty until the user has granted microphone access once
+  return devices
+    .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.deviceId !== '')
+    .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Microphone ${index + 1}` }));
+};
+
+export const describeMicrophoneError = (error: unknown): MicrophoneError => {
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+    case 'PermissionDeniedError':
+      return {
+        kind: 'permission',
+        message: 'Microphone access is blocked. Allow it for this site in your browser settings, then try again.',
+      };
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return { kind: 'no-device', message: 'No microphone was found. Connect one and try again.' };
+    case 'OverconstrainedError':
+      return { kind: 'device-unavailable', message: 'The selected microphone is not available.' };
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return { kind: 'busy', message: 'The microphone could not be started. It may be in use by another app.' };
+    case 'NotSupportedError':
+      return { kind: 'unsupported', message: 'This browser can\'t record audio here. Recording needs a recent browser and a secure (https) page.' };
+    default:
+      return { kind: 'unknown', message: 'Recording could not be started.' };
+  }
+};
+
+// Calls onFrame with the latest waveform samples until the returned function is called
+export const monitorInput = (stream: MediaStream, onFrame: (samples: Float32Array) => void): (() => void) => {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  const source = audioContext.createMediaStreamSource(stream);
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const intervalId = setInterval(() => {
+    analyser.getFloatTimeDomainData(samples);
+    onFrame(samples);
+  }, FRAME_MS);
+
+  return () => {
+    clearInterval(intervalId);
+    source.disconnect();
+    audioContext.close().catch(() => {
+      // Already closed
+    });
+  };
+};
@@ -0,0 +1,28 @@
+import { describeModelDetails, formatContextLength, modelLabel, offeredModelId } from './models';
+
+describe('model catalog helpers', () => {
+  const models = [{ id: 'whisper', label: 'Whisper', description: '', capabilities: [] }];
+
+  it('labels known models and falls back to the id', () => {
+    expect(modelLabel(models, 'whisper')).toBe('Whisper');
+    expect(modelLabel(models, 'retired-model')).toBe('retired-model');
+  });
+
+  it('replaces models the catalog no longer offers with the first one it does', () => {
+    expect(offeredModelId(models, 'whisper')).toBe('whisper');
+    expect(offeredModelId(models, 'retired-model')).toBe('whisper');
+    expect(offeredModelId([], 'retired-model')).toBe('retired-model');
+  });
+
+  it('formats context lengths in thousands of tokens', () => {
+    expect(formatContextLength(131072)).toBe('128K');
+    expect(formatContextLength(8192)).toBe('8K');
+    expect(formatContextLength(512)).toBe('512');
+  });
+
+  it('summarizes context length and capabilities', () => {
+    expect(describeModelDetails({ ...models[0], contextLength: 32768, capabilities: ['reasoning', 'streaming'] }))
+      .toBe('32K context · reasoning · streaming');
+    expect(describeModelDetails(models[0])).toBe('');
+  });
+});
@@ -0,0 +1,54 @@
+import { ModelCatalog, ModelInfo } from '../types';
+
+// Shown until /models answers, and kept if it can't be reached
+export const FALLBACK_MODEL_CATALOG: ModelCatalog = {
+  llm: [
+    {
+      id: 'gemma2-9b-it',
+      label: 'Gemma 2 (9B)',
+      description: 'Efficient model for general questions with good balance of speed and quality',
+      capabilities: [],
+    },
+    {
+      id: 'llama-3.1-8b-instant',
+      label: 'Llama 3.1 (8B)',
+      description: 'Fast, responsive model for quick interactions and basic tasks',
+      capabilities: [],
+    },
+    {
+      id: 'deepseek-r1-distill-llama-70b',
+      label: 'DeepSeek Llama (70B)',
+      description: 'Step-by-step reasoning for complex questions',
+      capabilities: [],
+    },
+    {
+      id: 'llama-3.3-70b-versatile',
+      label: 'Llama 3.3 (70B)',
+      description: 'Most capable model for complex tasks',
+      capabilities: [],
+    },
+  ],
+  asr: [
+    { id: 'conformer', label: 'Conformer', description: '', capabilities: [] },
+    { id: 'whisper', label: 'Whisper', description: '', capabilities: [] },
+    { id: 'wav2vec2', label: 'Wav2Vec2', description: '', capabilities: [] },
+  ],
+};
+
+export const findModel = (models: ModelInfo[], id: string) => models.find(model => model.id === id);
+
+// Falls back to the raw id for models the catalog doesn't know
+export const modelLabel = (models: ModelInfo[], id: string) => findModel(models, id)?.label ?? id;
+
+// The first offered model stands in for one the catalog no longer lists
+export const offeredModelId = (models: ModelInfo[], id: string) =>
+  findModel(models, id) || models.length === 0 ? id : models[0].id;
+
+export const formatContextLength = (tokens: number) =>
+  tokens >= 1024 ? `${Math.round(tokens / 1024)}K` : String(tokens);
+
+// One line of details under a model's name, e.g. "128K context · reasoning · multilingual"
+export const describeModelDetails = (model: ModelInfo) => [
+  model.contextLength ? `${formatContextLength(model.contextLength)} context` : null,
+  ...model.capabilities,
+].filter(Boolean).join(' · ');
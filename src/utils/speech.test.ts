@@ -0,0 +1,38 @@
+import { pickVoice, splitByScript, toSpeakableText, wordAt } from './speech';
+
+const voice = (lang: string, name = lang) => ({ lang, name } as SpeechSynthesisVoice);
+
+describe('speech', () => {
+  it('reads markdown as plain sentences', () => {
+    expect(toSpeakableText('## Doshas\n\n- **Vata** is *air*\n- See [Charaka](https://example.org)\n\n```\ncode\n```'))
+      .toBe('Doshas\nVata is air\nSee Charaka');
+  });
+
+  it('splits Devanagari runs from English, keeping punctuation with its run', () => {
+    const text = 'The verse धर्मक्षेत्रे कुरुक्षेत्रे, 1.1 opens the Gita.';
+
+    expect(splitByScript(text)).toEqual([
+      { text: 'The verse', start: 0, lang: 'en' },
+      { text: 'धर्मक्षेत्रे कुरुक्षेत्रे, 1.1', start: 10, lang: 'sa' },
+      { text: 'opens the Gita.', start: 41, lang: 'en' },
+    ]);
+  });
+
+  it('treats IAST transliteration as Latin text', () => {
+    expect(splitByScript('kṛṣṇa and ātman').map(segment => segment.lang)).toEqual(['en']);
+  });
+
+  it('finds the word around a character offset', () => {
+    expect(wordAt('read वात aloud', 6)).toEqual({ start: 5, end: 8 });
+    expect(wordAt('read वात aloud', 4)).toBeNull();
+  });
+
+  it('falls back from Sanskrit to other Devanagari voices', () => {
+    const voices = [voice('en-US'), voice('hi-IN'), voice('en-IN')];
+
+    expect(pickVoice(voices, 'sa')?.lang).toBe('hi-IN');
+    expect(pickVoice([...voices, voice('sa-IN')], 'sa')?.lang).toBe('sa-IN');
+    expect(pickVoice(voices, 'en')?.lang).toBe('en-IN');
+    expect(pickVoice([voice('fr-FR')], 'sa')).toBeNull();
+  });
+});
@@ -0,0 +1,216 @@
+import { synthesizeSpeech } from '../services/api';
+import { TtsProviderName } from '../types';
+
+// 'sa' covers any Devanagari run; everything else is read as English
+export type SpeechLang = 'sa' | 'en';
+
+export interface SpeechSegment {
+  text: string;
+  start: number; // Offset of the segment in the full text
+  lang: SpeechLang;
+}
+
+export interface SpeakOptions {
+  rate: number;
+  signal?: AbortSignal; // Aborting stops playback and resolves the promise
+  onWord?: (start: number, end: number) => void; // Character range of the word being spoken
+}
+
+export interface TtsProvider {
+  speak: (text: string, options: SpeakOptions) => Promise<void>;
+}
+
+const DEVANAGARI = /[\u0900-\u097F\uA8E0-\uA8FF]/;
+// Latin letters, including the diacritics used in IAST
+const LETTER = /[A-Za-z\u00C0-\u024F\u1E00-\u1EFF]/;
+
+// Turns a markdown reply into the text a listener should hear
+export const toSpeakableText = (markdown: string) => markdown
+  .replace(/```[\s\S]*?```/g, ' ')
+  .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+  .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/^[ \t]*(#{1,6}|>|[-*+]|\d+\.)[ \t]+/gm, '')
+  .replace(/^[\s|:-]+$/gm, '')
+  .replace(/[*_`~|#]/g, '')
+  .replace(/[ \t]+/g, ' ')
+  .replace(/\n\s*\n+/g, '\n')
+  .trim();
+
+// Splits text into runs of one script so each can be voiced in its own language
+export const splitByScript = (text: string): SpeechSegment[] => {
+  const segments: SpeechSegment[] = [];
+  const words = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = words.exec(text)) !== null) {
+    const word = match[0];
+    const lang: SpeechLang | null = DEVANAGARI.test(word) ? 'sa' : LETTER.test(word) ? 'en' : null;
+    const last = segments[segments.length - 1];
+
+    // Numbers and punctuation stay with the run they appear in
+    if (last && (lang === null || lang === last.lang)) {
+      last.text = text.slice(last.start, match.index + word.length);
+    } else {
+      segments.push({ text: word, start: match.index, lang: lang ?? 'en' });
+    }
+  }
+
+  return segments;
+};
+
+// Range of the word containing `index`, or null on whitespace
+export const wordAt = (text: string, index: number): { start: number; end: number } | null => {
+  if (index < 0 || index >= text.length || /\s/.test(text[index])) return null;
+
+  let start = index;
+  let end = index;
+  while (start > 0 && !/\s/.test(text[start - 1])) start--;
+  while (end < text.length && !/\s/.test(text[end])) end++;
+  return { start, end };
+};
+
+// Few systems ship a Sanskrit voice; Hindi, Marathi and Nepali voices read Devanagari closely
+const VOICE_PREFERENCES: Record<SpeechLang, string[]> = {
+  sa: ['sa', 'hi', 'mr', 'ne'],
+  en: ['en-in', 'en'],
+};
+
+export const pickVoice = (voices: SpeechSynthesisVoice[], lang: SpeechLang): SpeechSynthesisVoice | null => {
+  for (const prefix of VOICE_PREFERENCES[lang]) {
+    const voice = voices.find(candidate => candidate.lang.toLowerCase().replace('_', '-').startsWith(prefix));
+    if (voice) return voice;
+  }
+  return null;
+};
+
+const VOICES_TIMEOUT_MS = 1000;
+
+// Some browsers load voices asynchronously and report none on the first call
+const loadVoices = (synth: SpeechSynthesis): Promise<SpeechSynthesisVoice[]> => {
+  const voices = synth.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      synth.removeEventListener('voiceschanged', done);
+      resolve(synth.getVoices());
+    };
+    const timeoutId = setTimeout(done, VOICES_TIMEOUT_MS);
+    synth.addEventListener('voiceschanged', done);
+  });
+};
+
+export const browserTtsProvider: TtsProvider = {
+  speak: async (text, { rate, signal, onWord }) => {
+    const synth = window.speechSynthesis;
+    if (!synth || typeof SpeechSynthesisUtterance === 'undefined') {
+      throw new Error('Read aloud is not supported in this browser');
+    }
+
+    const segments = splitByScript(text);
+    if (segments.length === 0 || signal?.aborted) return;
+
+    const voices = await loadVoices(synth);
+    if (signal?.aborted) return;
+    synth.cancel();
+
+    await new Promise<void>((resolve, reject) => {
+      let remaining = segments.length;
+      signal?.addEventListener('abort', () => {
+        synth.cancel();
+        resolve();
+      }, { once: true });
+
+      segments.forEach((segment) => {
+        const utterance = new SpeechSynthesisUtterance(segment.text);
+        const voice = pickVoice(voices, segment.lang);
+        utterance.lang = voice?.lang ?? (segment.lang === 'sa' ? 'hi-IN' : 'en-US');
+        if (voice) utterance.voice = voice;
+        utterance.rate = rate;
+
+        utterance.onboundary = (event) => {
+          if (event.name && event.name !== 'word') return;
+          const range = wordAt(text, segment.start + event.charIndex);
+          if (range) onWord?.(range.start, range.end);
+        };
+        utterance.onend = () => {
+          remaining--;
+          if (remaining === 0) resolve();
+        };
+        utterance.onerror = (event) => {
+          // Cancelling, by us or by another page's playback, just ends this one
+          if (event.error === 'canceled' || event.error === 'interrupted') {
+            resolve();
+            return;
+          }
+          synth.cancel();
+          reject(new Error(`Read aloud failed (${event.error})`));
+        };
+
+        synth.speak(utterance);
+      });
+    });
+  },
+};
+
+const playAudio = (
+  blob: Blob,
+  rate: number,
+  signal: AbortSignal | undefined,
+  onProgress: (fraction: number) => void
+) => new Promise<void>((resolve, reject) => {
+  const url = URL.createObjectURL(blob);
+  const audio = new Audio(url);
+  audio.playbackRate = rate;
+
+  const cleanup = () => {
+    audio.pause();
+    URL.revokeObjectURL(url);
+  };
+
+  audio.ontimeupdate = () => {
+    if (audio.duration) onProgress(audio.currentTime / audio.duration);
+  };
+  audio.onended = () => {
+    cleanup();
+    resolve();
+  };
+  audio.onerror = () => {
+    cleanup();
+    reject(new Error('Could not play the synthesized speech'));
+  };
+  signal?.addEventListener('abort', () => {
+    cleanup();
+    resolve();
+  }, { once: true });
+
+  audio.play().catch((error) => {
+    cleanup();
+    reject(error);
+  });
+});
+
+export const serverTtsProvider: TtsProvider = {
+  speak: async (text, { rate, signal, onWord }) => {
+    const segments = splitByScript(text);
+    if (segments.length === 0) return;
+
+    let audio: Blob;
+    try {
+      audio = await synthesizeSpeech(text, segments.map(segment => ({ text: segment.text, lang: segment.lang })), signal);
+    } catch (error) {
+      if (signal?.aborted) return;
+      throw error;
+    }
+
+    // The server sends no word timings, so the highlight follows playback position through the text
+    await playAudio(audio, rate, signal, (fraction) => {
+      const range = wordAt(text, Math.min(text.length - 1, Math.floor(fraction * text.length)));
+      if (range) onWord?.(range.start, range.end);
+    });
+  },
+};
+
+export const getTtsProvider = (name: TtsProviderName): TtsProvider =>
+  name === 'server' ? serverTtsProvider : browserTtsProvider;
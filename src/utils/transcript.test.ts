@@ -0,0 +1,42 @@
+import { Transcription } from '../types';
+import { chooseAlternative, needsReview, replaceWord, transcriptWords } from './transcript';
+
+const transcription: Transcription = {
+  transcript: 'dharma kshetre kurukshetre',
+  words: [
+    { text: 'dharma', confidence: 0.95, alternatives: [] },
+    { text: 'kshetre', confidence: 0.4, alternatives: ['kṣetre', 'chetre'] },
+    { text: 'kurukshetre', confidence: 0.9, alternatives: [] },
+  ],
+  alternatives: ['dharma kṣetre kurukṣetre'],
+};
+
+describe('transcript review helpers', () => {
+  it('flags transcripts with unsure words or alternatives', () => {
+    expect(needsReview(transcription)).toBe(true);
+    expect(needsReview({ transcript: 'namaste', words: [{ text: 'namaste', confidence: 0.9, alternatives: [] }], alternatives: [] })).toBe(false);
+  });
+
+  it('treats a transcript without word details as confident words', () => {
+    expect(transcriptWords({ transcript: ' om  namah ', words: [], alternatives: [] })).toEqual([
+      { text: 'om', confidence: 1, alternatives: [] },
+      { text: 'namah', confidence: 1, alternatives: [] },
+    ]);
+  });
+
+  it('replaces a word and keeps the old reading as an alternative', () => {
+    const corrected = replaceWord(transcription, 1, 'kṣetre');
+
+    expect(corrected.transcript).toBe('dharma kṣetre kurukshetre');
+    expect(corrected.words[1]).toEqual({ text: 'kṣetre', confidence: 1, alternatives: ['kshetre', 'chetre'] });
+    expect(corrected.alternatives).toEqual(transcription.alternatives);
+  });
+
+  it('switches to a whole alternative and keeps the current reading', () => {
+    const chosen = chooseAlternative(transcription, 'dharma kṣetre kurukṣetre');
+
+    expect(chosen.transcript).toBe('dharma kṣetre kurukṣetre');
+    expect(chosen.words).toEqual([]);
+    expect(chosen.alternatives).toEqual(['dharma kshetre kurukshetre']);
+  });
+});
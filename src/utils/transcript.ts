@@ -0,0 +1,43 @@
+import { Transcription, TranscriptWord } from '../types';
+
+// Words below this confidence are flagged for the user to check
+export const LOW_CONFIDENCE = 0.6;
+
+export const isLowConfidence = (word: TranscriptWord) => word.confidence < LOW_CONFIDENCE;
+
+// Words to show for review; servers that send no word details get one fully confident word per token
+export const transcriptWords = (transcription: Transcription): TranscriptWord[] =>
+  transcription.words.length > 0
+    ? transcription.words
+    : transcription.transcript.split(/\s+/).filter(Boolean).map(text => ({ text, confidence: 1, alternatives: [] }));
+
+// Whether there is anything for the user to review or choose between
+export const needsReview = (transcription: Transcription) =>
+  transcription.alternatives.length > 0 || transcription.words.some(isLowConfidence);
+
+// Swaps one word for an alternative; the replaced reading stays available as an alternative
+export const replaceWord = (transcription: Transcription, index: number, text: string): Transcription => {
+  const words = transcriptWords(transcription).map((word, i) => (i === index
+    ? {
+      text,
+      confidence: 1,
+      alternatives: [word.text, ...word.alternatives.filter(alternative => alternative !== text)],
+    }
+    : word));
+
+  return {
+    ...transcription,
+    transcript: words.map(word => word.text).join(' '),
+    words,
+  };
+};
+
+// Switches to one of the whole-utterance alternatives, keeping the current reading among them
+export const chooseAlternative = (transcription: Transcription, alternative: string): Transcription => ({
+  transcript: alternative,
+  words: [],
+  alternatives: [
+    transcription.transcript,
+    ...transcription.alternatives.filter(candidate => candidate !== alternative),
+  ],
+});
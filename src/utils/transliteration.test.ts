@@ -0,0 +1,62 @@
+import { convertRomanRuns, transliterate } from './transliteration';
+
+describe('transliterate', () => {
+  it('converts IAST', () => {
+    expect(transliterate('dharma', 'iast')).toBe('धर्म');
+    expect(transliterate('kṛṣṇa', 'iast')).toBe('कृष्ण');
+    expect(transliterate('āyurveda', 'iast')).toBe('आयुर्वेद');
+    expect(transliterate('saṃskṛtam', 'iast')).toBe('संस्कृतम्');
+    expect(transliterate('duḥkha', 'iast')).toBe('दुःख');
+  });
+
+  it('ignores case in IAST', () => {
+    expect(transliterate('Dharma', 'iast')).toBe('धर्म');
+  });
+
+  it('keeps positions when lowercasing would change the length', () => {
+    expect(transliterate('İ rāma', 'iast')).toBe('İ राम');
+  });
+
+  it('converts Harvard-Kyoto', () => {
+    expect(transliterate('dharma', 'hk')).toBe('धर्म');
+    expect(transliterate('kRSNa', 'hk')).toBe('कृष्ण');
+    expect(transliterate('AyurvedaH', 'hk')).toBe('आयुर्वेदः');
+    expect(transliterate('zAnti', 'hk')).toBe('शान्ति');
+  });
+
+  it('converts ITRANS', () => {
+    expect(transliterate('dharma', 'itrans')).toBe('धर्म');
+    expect(transliterate('kRRiShNa', 'itrans')).toBe('कृष्ण');
+    expect(transliterate('shaanti', 'itrans')).toBe('शान्ति');
+    expect(transliterate('j~nAna', 'itrans')).toBe('ज्ञान');
+  });
+
+  it('writes independent vowels at the start of a word and after another vowel', () => {
+    expect(transliterate('aiśvarya', 'iast')).toBe('ऐश्वर्य');
+    expect(transliterate('kaui', 'iast')).toBe('कौइ');
+  });
+
+  it('passes unknown characters and punctuation through', () => {
+    expect(transliterate('rāma, sītā?', 'iast')).toBe('राम, सीता?');
+    expect(transliterate('oṃ namaḥ 108 ||', 'iast')).toBe('ओं नमः १०८ ॥');
+  });
+});
+
+describe('convertRomanRuns', () => {
+  it('converts every romanized word of pasted text', () => {
+    expect(convertRomanRuns('tat tvam asi', 'iast')).toEqual({ text: 'तत् त्वम् असि', caret: -1 });
+  });
+
+  it('leaves the word at the caret for the user to finish', () => {
+    expect(convertRomanRuns('धर्म kṣetre kuru', 'iast', 16)).toEqual({ text: 'धर्म क्षेत्रे kuru', caret: 18 });
+  });
+
+  it('converts an edit in the middle of the text and keeps the caret in place', () => {
+    expect(convertRomanRuns('oṃ धर्म', 'iast', 3)).toEqual({ text: 'ओं धर्म', caret: 3 });
+    expect(convertRomanRuns('rāma धर्म', 'iast', 5)).toEqual({ text: 'राम धर्म', caret: 4 });
+  });
+
+  it('leaves Devanagari and spacing alone', () => {
+    expect(convertRomanRuns('धर्म  क्षेत्रे ', 'iast', 0)).toEqual({ text: 'धर्म  क्षेत्रे ', caret: 0 });
+  });
+});
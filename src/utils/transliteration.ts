@@ -0,0 +1,183 @@
+import { TransliterationScheme } from '../types';
+
+interface SchemeMap {
+  vowels: Record<string, string>; // Roman vowel -> key into DEVANAGARI_VOWELS
+  consonants: Record<string, string>; // Roman consonant -> Devanagari consonant (may be a cluster)
+  marks: Record<string, string>; // Anusvara, visarga and other signs written as-is
+  caseSensitive: boolean;
+}
+
+// Independent vowel and dependent sign (matra) for each vowel, keyed by its IAST form
+const DEVANAGARI_VOWELS: Record<string, [string, string]> = {
+  a: ['अ', ''],
+  ā: ['आ', 'ा'],
+  i: ['इ', 'ि'],
+  ī: ['ई', 'ी'],
+  u: ['उ', 'ु'],
+  ū: ['ऊ', 'ू'],
+  ṛ: ['ऋ', 'ृ'],
+  ṝ: ['ॠ', 'ॄ'],
+  ḷ: ['ऌ', 'ॢ'],
+  ḹ: ['ॡ', 'ॣ'],
+  e: ['ए', 'े'],
+  ai: ['ऐ', 'ै'],
+  o: ['ओ', 'ो'],
+  au: ['औ', 'ौ'],
+};
+
+const VIRAMA = '्';
+
+const DIGITS = ['०', '१', '२', '३', '४', '५', '६', '७', '८', '९'];
+
+const sharedMarks: Record<string, string> = {
+  '||': '॥',
+  '|': '।',
+  ...Object.fromEntries(DIGITS.map((digit, value) => [String(value), digit])),
+};
+
+const SCHEMES: Record<TransliterationScheme, SchemeMap> = {
+  iast: {
+    vowels: {
+      a: 'a', ā: 'ā', i: 'i', ī: 'ī', u: 'u', ū: 'ū', ṛ: 'ṛ', ṝ: 'ṝ', ḷ: 'ḷ', ḹ: 'ḹ',
+      e: 'e', ai: 'ai', o: 'o', au: 'au',
+    },
+    consonants: {
+      k: 'क', kh: 'ख', g: 'ग', gh: 'घ', ṅ: 'ङ',
+      c: 'च', ch: 'छ', j: 'ज', jh: 'झ', ñ: 'ञ',
+      ṭ: 'ट', ṭh: 'ठ', ḍ: 'ड', ḍh: 'ढ', ṇ: 'ण',
+      t: 'त', th: 'थ', d: 'द', dh: 'ध', n: 'न',
+      p: 'प', ph: 'फ', b: 'ब', bh: 'भ', m: 'म',
+      y: 'य', r: 'र', l: 'ल', v: 'व', ś: 'श', ṣ: 'ष', s: 'स', h: 'ह', ḻ: 'ळ',
+    },
+    marks: { ṃ: 'ं', ṁ: 'ं', ḥ: 'ः', "'": 'ऽ', 'm̐': 'ँ', ...sharedMarks },
+    caseSensitive: false,
+  },
+  hk: {
+    vowels: {
+      a: 'a', A: 'ā', i: 'i', I: 'ī', u: 'u', U: 'ū', R: 'ṛ', RR: 'ṝ', lR: 'ḷ', lRR: 'ḹ',
+      e: 'e', ai: 'ai', o: 'o', au: 'au',
+    },
+    consonants: {
+      k: 'क', kh: 'ख', g: 'ग', gh: 'घ', G: 'ङ',
+      c: 'च', ch: 'छ', j: 'ज', jh: 'झ', J: 'ञ',
+      T: 'ट', Th: 'ठ', D: 'ड', Dh: 'ढ', N: 'ण',
+      t: 'त', th: 'थ', d: 'द', dh: 'ध', n: 'न',
+      p: 'प', ph: 'फ', b: 'ब', bh: 'भ', m: 'म',
+      y: 'य', r: 'र', l: 'ल', v: 'व', z: 'श', S: 'ष', s: 'स', h: 'ह',
+    },
+    marks: { M: 'ं', H: 'ः', "'": 'ऽ', '~': 'ँ', ...sharedMarks },
+    caseSensitive: true,
+  },
+  itrans: {
+    vowels: {
+      a: 'a', A: 'ā', aa: 'ā', i: 'i', I: 'ī', ii: 'ī', u: 'u', U: 'ū', uu: 'ū',
+      RRi: 'ṛ', 'R^i': 'ṛ', RRI: 'ṝ', 'R^I': 'ṝ', LLi: 'ḷ', 'L^i': 'ḷ', LLI: 'ḹ', 'L^I': 'ḹ',
+      e: 'e', ai: 'ai', o: 'o', au: 'au',
+    },
+    consonants: {
+      k: 'क', kh: 'ख', g: 'ग', gh: 'घ', '~N': 'ङ', 'N^': 'ङ',
+      ch: 'च', Ch: 'छ', chh: 'छ', j: 'ज', jh: 'झ', '~n': 'ञ',
+      T: 'ट', Th: 'ठ', D: 'ड', Dh: 'ढ', N: 'ण',
+      t: 'त', th: 'थ', d: 'द', dh: 'ध', n: 'न',
+      p: 'प', ph: 'फ', b: 'ब', bh: 'भ', m: 'म',
+      y: 'य', r: 'र', l: 'ल', v: 'व', w: 'व', sh: 'श', Sh: 'ष', shh: 'ष', s: 'स', h: 'ह',
+      L: 'ळ', x: 'क्ष', kSh: 'क्ष', GY: 'ज्ञ', 'j~n': 'ज्ञ',
+    },
+    marks: { M: 'ं', '.n': 'ं', H: 'ः', '.a': 'ऽ', '.N': 'ँ', ...sharedMarks },
+    caseSensitive: true,
+  },
+};
+
+export const SCHEME_LABELS: Record<TransliterationScheme, string> = {
+  iast: 'IAST',
+  hk: 'Harvard-Kyoto',
+  itrans: 'ITRANS',
+};
+
+// Longest token in any of the scheme's tables, so matching can try longest first
+const maxTokenLength = (scheme: SchemeMap) => Math.max(...[
+  ...Object.keys(scheme.vowels),
+  ...Object.keys(scheme.consonants),
+  ...Object.keys(scheme.marks),
+].map(token => token.length));
+
+// Convert romanized Sanskrit to Devanagari; characters outside the scheme pass through unchanged
+export const transliterate = (input: string, schemeName: TransliterationScheme): string => {
+  const scheme = SCHEMES[schemeName];
+  const text = input.normalize('NFC');
+  const longest = maxTokenLength(scheme);
+
+  let output = '';
+  let afterConsonant = false; // The last consonant still carries an implicit 'a' or needs a virama
+
+  let position = 0;
+  while (position < text.length) {
+    let matched = false;
+
+    for (let length = Math.min(longest, text.length - position); length > 0; length--) {
+      // Lowercased per token rather than up front, since lowercasing can change the text's length
+      const token = scheme.caseSensitive ? text.substr(position, length) : text.substr(position, length).toLowerCase();
+
+      const vowel = scheme.vowels[token];
+      if (vowel) {
+        const [independent, sign] = DEVANAGARI_VOWELS[vowel];
+        output += afterConsonant ? sign : independent;
+        afterConsonant = false;
+      } else if (scheme.consonants[token]) {
+        output += (afterConsonant ? VIRAMA : '') + scheme.consonants[token];
+        afterConsonant = true;
+      } else if (scheme.marks[token]) {
+        output += (afterConsonant ? VIRAMA : '') + scheme.marks[token];
+        afterConsonant = false;
+      } else {
+        continue;
+      }
+
+      position += length;
+      matched = true;
+      break;
+    }
+
+    if (!matched) {
+      output += (afterConsonant ? VIRAMA : '') + text[position];
+      afterConsonant = false;
+      position++;
+    }
+  }
+
+  return afterConsonant ? output + VIRAMA : output;
+};
+
+// Alternating runs of Devanagari-or-whitespace and of anything else, which is taken to be romanized
+const RUN_PATTERN = /[\u0900-\u097F\s]+|[^\u0900-\u097F\s]+/g;
+const ROMAN_RUN = /^[^\u0900-\u097F\s]/;
+
+export interface ConvertedText {
+  text: string;
+  caret: number;
+}
+
+// Converts every romanized run, wherever it was typed or pasted. The run touching the caret is left alone
+// because the user may still be typing it; the caret moves with the text before it.
+export const convertRomanRuns = (text: string, schemeName: TransliterationScheme, caret = -1): ConvertedText => {
+  let output = '';
+  let newCaret = caret;
+  let position = 0;
+
+  (text.match(RUN_PATTERN) || []).forEach((run) => {
+    const start = position;
+    const end = position + run.length;
+    position = end;
+
+    if (!ROMAN_RUN.test(run) || (start <= caret && caret <= end)) {
+      output += run;
+      return;
+    }
+
+    const converted = transliterate(run, schemeName);
+    output += converted;
+    if (end <= caret) newCaret += converted.length - run.length;
+  });
+
+  return { text: output, caret: newCaret };
+};
@@ -0,0 +1,34 @@
+import { createQueueItems, MAX_UPLOAD_BYTES, retryDelay, validateUploadFile } from './uploadQueue';
+
+const pdfOfSize = (name: string, size: number) => {
+  const file = new File(['%PDF'], name, { type: 'application/pdf' });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+};
+
+describe('uploadQueue', () => {
+  it('validates type and size before uploading', () => {
+    expect(validateUploadFile(pdfOfSize('a.pdf', 1024))).toBeNull();
+    expect(validateUploadFile(new File(['x'], 'a.docx', { type: 'application/msword' }))).toBe('Only PDF files can be uploaded.');
+    expect(validateUploadFile(pdfOfSize('empty.pdf', 0))).toBe('The file is empty.');
+    expect(validateUploadFile(pdfOfSize('huge.pdf', MAX_UPLOAD_BYTES + 1))).toBe('The file is 100 MB; the limit is 100 MB.');
+  });
+
+  it('accepts PDFs the browser gives no MIME type', () => {
+    expect(validateUploadFile(new File(['%PDF'], 'Sushruta.PDF'))).toBeNull();
+  });
+
+  it('flags a file that is already waiting in the queue', () => {
+    const [first] = createQueueItems([pdfOfSize('a.pdf', 10)], []);
+    const [again] = createQueueItems([pdfOfSize('a.pdf', 10)], [first]);
+
+    expect(first.status).toBe('queued');
+    expect(again.status).toBe('invalid');
+    expect(again.message).toBe('This file is already in the queue.');
+    expect(again.id).not.toBe(first.id);
+  });
+
+  it('backs off exponentially between attempts', () => {
+    expect([1, 2, 3].map(retryDelay)).toEqual([2000, 4000, 8000]);
+  });
+});
@@ -0,0 +1,57 @@
+import { formatFileSize } from './format';
+
+export const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+export const MAX_CONCURRENT_UPLOADS = 2;
+export const MAX_UPLOAD_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+
+export type UploadStatus = 'invalid' | 'queued' | 'uploading' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  loadedBytes: number;
+  attempts: number; // Upload attempts started so far
+  message?: string; // Server reply once done, or why the file failed
+}
+
+const isPdf = (file: File) =>
+  file.type === 'application/pdf' || (!file.type && file.name.toLowerCase().endsWith('.pdf'));
+
+// Returns why a file can't be uploaded, or null if it's fine
+export const validateUploadFile = (file: File): string | null => {
+  if (!isPdf(file)) return 'Only PDF files can be uploaded.';
+  if (file.size === 0) return 'The file is empty.';
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `The file is ${formatFileSize(file.size)}; the limit is ${formatFileSize(MAX_UPLOAD_BYTES)}.`;
+  }
+  return null;
+};
+
+let nextItemId = 0;
+
+export const createQueueItems = (files: File[], queue: UploadQueueItem[]): UploadQueueItem[] =>
+  files.map((file) => {
+    // Dropping the same file again while it's still pending would upload it twice
+    const duplicate = queue.some(item =>
+      ['queued', 'uploading', 'retrying'].includes(item.status)
+      && item.file.name === file.name
+      && item.file.size === file.size
+    );
+    const error = duplicate ? 'This file is already in the queue.' : validateUploadFile(file);
+
+    return {
+      id: `upload-${++nextItemId}`,
+      file,
+      status: error ? 'invalid' : 'queued',
+      loadedBytes: 0,
+      attempts: 0,
+      message: error ?? undefined,
+    };
+  });
+
+export const retryDelay = (attempts: number) => RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+
+export const isFinished = (item: UploadQueueItem) =>
+  ['invalid', 'done', 'failed', 'cancelled'].includes(item.status);
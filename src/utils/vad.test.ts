@@ -0,0 +1,36 @@
+import { createSilenceDetector, rmsLevel } from './vad';
+
+const options = { threshold: 0.1, minSpeechMs: 200, silenceMs: 1000 };
+
+// Feeds levels one 50 ms frame apart and collects the events
+const run = (levels: number[]) => {
+  const detect = createSilenceDetector(options);
+  return levels
+    .map((level, frame) => [frame * 50, detect(level, frame * 50)] as const)
+    .filter(([, event]) => event !== null);
+};
+
+const frames = (level: number, count: number) => Array(count).fill(level);
+
+describe('vad', () => {
+  it('measures the RMS level of a frame', () => {
+    expect(rmsLevel(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+    expect(rmsLevel(new Float32Array(0))).toBe(0);
+  });
+
+  it('reports the end of speech after enough silence', () => {
+    const events = run([...frames(0, 10), ...frames(0.3, 20), ...frames(0, 25)]);
+
+    expect(events).toEqual([[700, 'speech-start'], [2450, 'speech-end']]);
+  });
+
+  it('ignores sounds too short to be speech', () => {
+    expect(run([...frames(0.3, 3), ...frames(0, 40)])).toEqual([]);
+  });
+
+  it('keeps listening through short pauses between words', () => {
+    const events = run([...frames(0.3, 10), ...frames(0, 10), ...frames(0.3, 10), ...frames(0, 25)]);
+
+    expect(events.map(([, event]) => event)).toEqual(['speech-start', 'speech-end']);
+  });
+});
@@ -0,0 +1,53 @@
+// Voice-activity detection: decides from microphone volume when the user starts and stops speaking
+
+export interface VadOptions {
+  threshold: number; // RMS level (0-1) counted as speech
+  minSpeechMs: number; // Sound must last this long to count, so clicks and coughs don't
+  silenceMs: number; // Quiet after speech that ends the utterance
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  threshold: 0.02,
+  minSpeechMs: 250,
+  silenceMs: 1500,
+};
+
+export type VadEvent = 'speech-start' | 'speech-end';
+
+export const rmsLevel = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sum / samples.length) : 0;
+};
+
+// Feed it one level per frame; it reports when speech starts and when it has ended
+export const createSilenceDetector = (options: VadOptions = DEFAULT_VAD_OPTIONS) => {
+  let loudSince: number | null = null;
+  let lastLoudAt = 0;
+  let speaking = false;
+
+  return (level: number, now: number): VadEvent | null => {
+    if (level >= options.threshold) {
+      lastLoudAt = now;
+      loudSince = loudSince ?? now;
+      if (!speaking && now - loudSince >= options.minSpeechMs) {
+        speaking = true;
+        return 'speech-start';
+      }
+      return null;
+    }
+
+    if (!speaking) {
+      loudSince = null;
+      return null;
+    }
+    if (now - lastLoudAt >= options.silenceMs) {
+      speaking = false;
+      loudSince = null;
+      return 'speech-end';
+    }
+    return null;
+  };
+};